@@ -0,0 +1,155 @@
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { AuthError, EoMiniApi, HubOfflineError, MiniOfflineError } from '../dist/api.js';
+import { PLUGIN_NAME } from '../dist/settings.js';
+
+/**
+ * Sessions per charger shown in the dashboard chart
+ */
+const RECENT_SESSIONS = 20;
+
+/**
+ * The custom UI server has no Homebridge logger, API debug output is dropped
+ */
+const log = Object.assign(() => {}, {
+  prefix: 'homebridge-ui',
+  info: () => {},
+  success: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+  log: () => {},
+});
+
+/**
+ * Custom UI Server
+ * Tests the EO account credentials and lists its chargers for the settings page, the dashboard
+ * only reads the files written by the plugin (no EO cloud calls).
+ */
+class EOMiniUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.onRequest('/login', this.login.bind(this));
+    this.onRequest('/chargers', this.chargers.bind(this));
+    this.onRequest('/status', this.status.bind(this));
+    this.onRequest('/sessions', this.sessions.bind(this));
+
+    this.ready();
+  }
+
+  /**
+   * @param {{ username?: string, password?: string, baseUrl?: string }} account Credentials
+   */
+  client({ username, password, baseUrl }) {
+    if (!username || !password) {
+      throw new RequestError('Missing username or password', { status: 400 });
+    }
+
+    return new EoMiniApi(username, password, log, { base: baseUrl || undefined, retry: { retries: 0 } });
+  }
+
+  /**
+   * Run an EO API call, reporting its failure to the UI
+   * @template T
+   * @param {() => Promise<T>} fn API call
+   * @returns {Promise<T>}
+   */
+  async call(fn) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof RequestError) {
+        throw err;
+      }
+      if (err instanceof AuthError) {
+        throw new RequestError('Invalid username or password', { status: err.status });
+      }
+
+      throw new RequestError(err.message, { name: err.name });
+    }
+  }
+
+  /**
+   * Test the credentials
+   */
+  async login(payload) {
+    const user = await this.call(() => this.client(payload).user());
+
+    return { email: user.email, name: `${user.firstName} ${user.lastName}`.trim() };
+  }
+
+  /**
+   * Chargers of the account with their hub/mini health
+   */
+  async chargers(payload) {
+    const client = this.client(payload);
+    const devices = await this.call(() => client.miniList());
+
+    const chargers = [];
+
+    for (const device of devices) {
+      let health = { online: true };
+
+      try {
+        await client.miniStatus(device.address);
+      } catch (err) {
+        health =
+          err instanceof HubOfflineError || err instanceof MiniOfflineError
+            ? { online: false, reason: err.message }
+            : { online: null, reason: err.message };
+      }
+
+      chargers.push({
+        address: device.address,
+        chargerModel: device.chargerModel,
+        hubModel: device.hubModel,
+        hubSerial: device.hubSerial,
+        isDisabled: !!device.isDisabled,
+        ...health,
+      });
+    }
+
+    return chargers;
+  }
+
+  /**
+   * Read a JSON file of the plugin from the Homebridge storage path
+   * @param {string} name File suffix
+   * @param {unknown} fallback Value when the file is missing or invalid
+   */
+  async readFile(name, fallback) {
+    try {
+      const file = path.join(this.homebridgeStoragePath || '', `${PLUGIN_NAME}_${name}.json`);
+
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (err) {
+      return fallback;
+    }
+  }
+
+  /**
+   * Last known state of the chargers, written by the plugin after each poll
+   */
+  async status() {
+    return this.readFile('status', { updatedAt: null, chargers: [] });
+  }
+
+  /**
+   * Most recent sessions of each charger from the session journal
+   */
+  async sessions() {
+    const entries = await this.readFile('sessions', []);
+    const recent = {};
+
+    for (const entry of [...entries].sort((a, b) => a.start.localeCompare(b.start))) {
+      recent[entry.address] = [...(recent[entry.address] || []), entry].slice(-RECENT_SESSIONS);
+    }
+
+    return recent;
+  }
+}
+
+(() => new EOMiniUiServer())();
@@ -0,0 +1,290 @@
+import type { Logging } from 'homebridge';
+import PQueue from 'p-queue';
+
+import { EoMiniApi, isRetryable, RateLimitedError, ResponseUser, ResponseVehicle } from './api.js';
+import type { EOMiniPlatform } from './platform.js';
+import { isInWindow } from './scheduler.js';
+import type { AccountConfig } from './settings.js';
+import { StateStore } from './store.js';
+
+/**
+ * Shortest poll interval in seconds
+ */
+const MIN_POLL_INTERVAL = 5;
+
+/**
+ * Delay of the poll confirming a command
+ */
+const FOLLOW_UP_DELAY = 2 * 1000;
+
+/**
+ * Consecutive failed polls before entering the outage mode
+ */
+const OUTAGE_THRESHOLD = 3;
+
+/**
+ * Longest poll interval in seconds during an outage
+ */
+const OUTAGE_MAX_INTERVAL = 900;
+
+/**
+ * EO Account
+ * Owns everything bound to a set of credentials: API client (and its token), request queue,
+ * state store and polling loop.
+ */
+export class EOMiniAccount {
+  /**
+   * Device address to accessory UUID
+   */
+  public readonly devices: Map<string, string> = new Map();
+
+  public readonly queue: PQueue = new PQueue({ concurrency: 1 });
+
+  /**
+   * Polled state of the account chargers, accessories subscribe to its change events
+   */
+  public readonly store: StateStore;
+
+  /**
+   * User (currency) and vehicle (battery capacity), shared by the chargers of the account
+   */
+  public user: ResponseUser | null = null;
+  public vehicle: ResponseVehicle | null = null;
+
+  /**
+   * Profile loaded, or rejected for good (not retried)
+   */
+  private profileLoaded = false;
+
+  private _client: EoMiniApi | undefined = undefined;
+
+  private timeout: NodeJS.Timeout | undefined = undefined;
+
+  /**
+   * Pending discovery retry, apart from the polls so that a follow-up poll does not cancel it
+   */
+  private discoveryTimeout: NodeJS.Timeout | undefined = undefined;
+
+  /**
+   * Consecutive polls failing with a transient error
+   */
+  private failures = 0;
+
+  private log: Logging;
+
+  /**
+   * @param platform Platform
+   * @param config Credentials
+   * @param namespace Prefix of the accessories UUID seed, empty for the top-level account (backward compatible)
+   */
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly config: AccountConfig,
+    private readonly namespace: string,
+  ) {
+    this.log = this.platform.log;
+
+    this.store = new StateStore(this.log, () => this.client);
+
+    this.store.on('device', (address, device) => {
+      const accessory = this.platform.accessories.get(this.devices.get(address) || '');
+
+      if (!accessory) {
+        return;
+      }
+
+      accessory.context.device = device;
+
+      this.platform.api.updatePlatformAccessories([accessory]);
+    });
+  }
+
+  get id() {
+    return this.config.username;
+  }
+
+  get name() {
+    return this.config.name || this.config.username;
+  }
+
+  get client() {
+    const { baseUrl, requestTimeout, retries } = this.platform.config;
+
+    this._client =
+      this._client ||
+      new EoMiniApi(this.config.username, this.config.password, this.log, {
+        base: baseUrl,
+        timeout: requestTimeout && requestTimeout * 1000,
+        retry: { retries },
+      });
+
+    return this._client;
+  }
+
+  /**
+   * Accessory UUID of a device of this account
+   */
+  uuid(address: string) {
+    return this.platform.api.hap.uuid.generate(this.namespace + address);
+  }
+
+  async updateDevices() {
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+
+    let error: unknown = undefined;
+
+    // * Retried after a failed load, once the EO cloud answers the polls again
+    if (!this.profileLoaded && !this.failures) {
+      await this.queue.add(() => this.loadProfile());
+    }
+
+    try {
+      // * Only the session check of this cycle, skipped while every charger is offline
+      error = await this.queue.add(() => this.store.poll());
+    } catch (err) {
+      error = err;
+
+      // ! Logged once when the outage starts
+      if (!this.store.outage) {
+        this.log.error(this.name, 'Failed to update devices:', (err as Error).message);
+      }
+    }
+
+    this.updateOutage(error);
+
+    // * A follow-up poll may have been requested meanwhile, never before the server asked to retry
+    if (!this.timeout) {
+      const retryAfter = error instanceof RateLimitedError ? error.retryAfter || 0 : 0;
+
+      this.scheduleUpdate(Math.max(this.pollInterval(), retryAfter));
+    }
+  }
+
+  /**
+   * Load user and vehicle
+   */
+  private async loadProfile() {
+    try {
+      this.user = this.user || (await this.client.user());
+      this.vehicle = this.vehicle || (await this.client.vehicle());
+
+      this.profileLoaded = true;
+
+      this.log.debug(this.name, 'Vehicle', this.vehicle.Manufacturer, this.vehicle.Model, this.vehicle.BatteryKWH);
+    } catch (err) {
+      this.log.warn(this.name, 'Failed to load user/vehicle:', (err as Error).message);
+
+      this.profileLoaded = !isRetryable(err);
+    }
+  }
+
+  /**
+   * Enter the outage mode after consecutive failed polls, leave it on the first successful one
+   * @param error Poll failure, if any
+   */
+  private updateOutage(error: unknown) {
+    const threshold = this.platform.config.outage?.threshold || OUTAGE_THRESHOLD;
+
+    // * Transient failures tell the EO cloud is down, rather than a rejected request
+    if (isRetryable(error)) {
+      this.failures += 1;
+
+      if (!this.store.outage && this.failures >= threshold) {
+        this.log.warn(this.name, 'EO cloud outage after', this.failures, 'failed polls, backing off');
+
+        this.store.setOutage(true);
+      }
+
+      return;
+    }
+
+    if (error) {
+      return;
+    }
+
+    this.failures = 0;
+
+    if (this.store.outage) {
+      this.log.info(this.name, 'EO cloud outage over');
+
+      this.store.setOutage(false);
+      this.requestUpdate();
+    }
+  }
+
+  /**
+   * Retry a failed device discovery, backing off like the polls while the EO cloud is down
+   * @param error Discovery failure
+   * @param discover Discovery to retry
+   */
+  retryDiscovery(error: unknown, discover: () => Promise<void>) {
+    this.updateOutage(error);
+
+    const delay = this.pollInterval();
+
+    this.log.debug(this.name, 'Next discovery in', delay / 1000, 's');
+
+    clearTimeout(this.discoveryTimeout);
+    this.discoveryTimeout = setTimeout(() => {
+      this.discoveryTimeout = undefined;
+      discover();
+    }, delay);
+  }
+
+  private scheduleUpdate(delay: number) {
+    clearTimeout(this.timeout);
+
+    this.log.debug(this.name, 'Next poll in', delay / 1000, 's');
+
+    this.timeout = setTimeout(() => {
+      this.updateDevices();
+    }, delay);
+  }
+
+  /**
+   * Poll again shortly to confirm the outcome of a command
+   */
+  requestUpdate() {
+    this.scheduleUpdate(FOLLOW_UP_DELAY);
+  }
+
+  stop() {
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+
+    clearTimeout(this.discoveryTimeout);
+    this.discoveryTimeout = undefined;
+  }
+
+  /**
+   * Poll interval (in ms) for the current state: outage, charging, cable connected, idle or quiet hours
+   */
+  pollInterval() {
+    const { polling, refreshRate, outage } = this.platform.config;
+    const { idle, connected, charging, quietHours } = polling || {};
+    const seconds = (value: number | undefined, fallback: number) => Math.max(value || fallback, MIN_POLL_INTERVAL);
+
+    // * Exponential backoff from the idle interval while the cloud is down
+    if (this.store.outage) {
+      const threshold = outage?.threshold || OUTAGE_THRESHOLD;
+      const backoff = seconds(idle, refreshRate || 60) * 2 ** Math.max(this.failures - threshold, 0);
+
+      return Math.min(backoff, seconds(outage?.maxInterval, OUTAGE_MAX_INTERVAL)) * 1000;
+    }
+
+    const { session, sessionAlive } = this.store;
+
+    if (sessionAlive && session && !session.IsPaused) {
+      return seconds(charging, 15) * 1000;
+    }
+
+    const timezone = [...this.store.devices.values()][0]?.timezone;
+
+    if (quietHours?.start && quietHours?.end && isInWindow([quietHours], new Date(), timezone)) {
+      return seconds(quietHours.interval, 600) * 1000;
+    }
+
+    return (sessionAlive ? seconds(connected, 30) : seconds(idle, refreshRate || 60)) * 1000;
+  }
+}
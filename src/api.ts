@@ -1,5 +1,20 @@
 import { Logging } from 'homebridge';
-import fetch from 'node-fetch';
+import fetch, { RequestInit, Response as FetchResponse } from 'node-fetch';
+
+import {
+  ApiError,
+  AuthError,
+  HubOfflineError,
+  MiniOfflineError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  RequestError,
+  ServerError,
+  TimeoutError,
+} from './errors.js';
+
+export * from './errors.js';
 
 interface RequestOpts {
   expect?: boolean;
@@ -26,6 +41,10 @@ export interface ResponseToken {
 interface AuthSession {
   token: string;
   expires: Date;
+  /**
+   * Refresh proactively after this time (ms)
+   */
+  refreshAt: number;
   header: {
     Authorization: `Bearer ${string}`;
   };
@@ -115,32 +134,112 @@ export interface ResponseVehicle {
   BatteryKWH: number;
 }
 
-export class AuthError extends Error {
-  isAuthError = true;
-
-  constructor(message: string, readonly status: number, readonly body: string) {
-    super(`Authentication failed: ${message}`);
+/**
+ * Retry policy for idempotent (GET) requests
+ */
+export interface RetryPolicy {
+  /**
+   * Number of retries after the first attempt
+   */
+  retries: number;
+  /**
+   * Base delay in milliseconds, doubled on every attempt
+   */
+  minDelay: number;
+  /**
+   * Maximum delay in milliseconds
+   */
+  maxDelay: number;
+}
 
-    this.name = 'AuthError';
-    Object.setPrototypeOf(this, AuthError.prototype);
-  }
+export interface ApiOptions {
+  /**
+   * API base URL
+   */
+  base?: string;
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout?: number;
+  retry?: Partial<RetryPolicy>;
 }
 
-export class EoMiniApi {
-  private base = 'https://eoappi.eocharging.com';
+/**
+ * EO cloud API base URL
+ */
+export const EO_API_BASE = 'https://eoappi.eocharging.com';
+
+/**
+ * Refresh the token this long before it expires
+ */
+const AUTH_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * Backoff after a failed authentication (doubled on every consecutive failure)
+ */
+const AUTH_BACKOFF_MIN = 30 * 1000;
+const AUTH_BACKOFF_MAX = 60 * 60 * 1000;
+
+const DEFAULT_TIMEOUT = 10 * 1000;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  minDelay: 500,
+  maxDelay: 5000,
+};
+
+/**
+ * Transient failures worth retrying
+ */
+export const isRetryable = (err: unknown) =>
+  err instanceof NetworkError ||
+  err instanceof TimeoutError ||
+  err instanceof ServerError ||
+  err instanceof RateLimitedError;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+export class EoMiniApi {
   /**
    * Object containing the auth session
    */
   private _authSession: AuthSession | undefined = undefined;
 
-  constructor(private readonly username: string, private readonly password: string, private log: Logging) {}
+  /**
+   * Pending authentication, shared by concurrent requests
+   */
+  private authPromise: Promise<void> | undefined = undefined;
+
+  /**
+   * Consecutive authentication failures and when the next attempt is allowed
+   */
+  private authFailures = 0;
+  private authRetryAt = 0;
+
+  private readonly base: string;
+  private readonly timeout: number;
+  private readonly retry: RetryPolicy;
+
+  constructor(
+    private readonly username: string,
+    private readonly password: string,
+    private log: Logging,
+    { base, timeout, retry }: ApiOptions = {},
+  ) {
+    this.base = base || EO_API_BASE;
+    this.timeout = timeout || DEFAULT_TIMEOUT;
+    this.retry = {
+      retries: retry?.retries ?? DEFAULT_RETRY_POLICY.retries,
+      minDelay: retry?.minDelay ?? DEFAULT_RETRY_POLICY.minDelay,
+      maxDelay: retry?.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay,
+    };
+  }
 
   /**
-   * Flag to check if the auth session is valid
+   * Flag to check if the auth session is valid (and not about to expire)
    */
   private get isAuthSessionValid() {
-    return !this._authSession || this._authSession.expires > new Date();
+    return !!this._authSession && this._authSession.refreshAt > Date.now();
   }
 
   /**
@@ -158,9 +257,17 @@ export class EoMiniApi {
    * Set the auth session
    */
   private set authSession(raw: ResponseToken) {
+    // * Prefer the absolute expiration, fallback on expires_in
+    const parsed = new Date(raw['.expires']);
+    const expires = isNaN(parsed.getTime()) ? new Date(Date.now() + raw.expires_in * 1000) : parsed;
+
+    // ! A token shorter lived than the margin is refreshed halfway through its lifetime
+    const margin = Math.min(AUTH_REFRESH_MARGIN, (expires.getTime() - Date.now()) / 2);
+
     this._authSession = {
       token: raw.access_token,
-      expires: new Date(Date.now() + raw.expires_in * 1000),
+      expires,
+      refreshAt: expires.getTime() - margin,
       header: {
         Authorization: `Bearer ${raw.access_token}`,
       },
@@ -169,23 +276,67 @@ export class EoMiniApi {
   }
 
   /**
-   *
+   * Authenticate, concurrent calls share the same attempt
    */
-  private async auth() {
-    const resp = await fetch(`${this.base}/token`, {
+  private auth() {
+    this.authPromise =
+      this.authPromise ||
+      this.authInner().finally(() => {
+        this.authPromise = undefined;
+      });
+
+    return this.authPromise;
+  }
+
+  private async authInner() {
+    // ! Do not hit the login endpoint while backing off (avoid account lockout)
+    if (this.authRetryAt > Date.now()) {
+      throw new AuthError(`Backing off until ${new Date(this.authRetryAt).toISOString()}`, 0, '');
+    }
+
+    this._authSession = undefined;
+
+    try {
+      await this.authRequest();
+
+      this.authFailures = 0;
+      this.authRetryAt = 0;
+    } catch (err) {
+      if (err instanceof AuthError) {
+        const backoff = Math.min(AUTH_BACKOFF_MIN * 2 ** this.authFailures, AUTH_BACKOFF_MAX);
+
+        this.authFailures++;
+        this.authRetryAt = Date.now() + backoff;
+
+        this.log.error('Authentication failed', this.authFailures, 'time(s), next attempt in', backoff / 1000, 's');
+      }
+
+      throw err;
+    }
+  }
+
+  private async authRequest() {
+    this.log.debug('Authenticating', this.username);
+
+    const { resp, rawBody } = await this.fetch('token', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         Accept: 'application/json',
       },
-      body: ['grant_type=password', `username=${this.username}`, `password=${this.password}`].join('&'),
+      body: new URLSearchParams({
+        grant_type: 'password',
+        username: this.username,
+        password: this.password,
+      }).toString(),
     });
 
-    const rawBody = await resp.text();
-
-    // ! Fail if response is not ok
+    // ! Only a credentials rejection is an auth failure, anything else is transient (no login backoff)
+    if (resp.status === 401 || (resp.status === 400 && rawBody.includes('invalid_grant'))) {
+      throw new AuthError('Invalid credentials', resp.status, rawBody);
+    }
     if (!resp.ok) {
-      throw new AuthError('Response not ok', resp.status, rawBody);
+      throw this.responseError('token', resp, rawBody);
     }
 
     // * Attempt to parse the response body as JSON
@@ -193,16 +344,16 @@ export class EoMiniApi {
     try {
       body = JSON.parse(rawBody) as ResponseToken;
     } catch (err) {
-      throw new AuthError('Response not JSON', resp.status, rawBody);
+      throw new ApiError('Response not JSON', 'token', resp.status, rawBody);
     }
 
     // ! Fail if access_token property is not available
     if (!body.access_token) {
-      throw new AuthError('No access token', resp.status, rawBody);
+      throw new ApiError('No access token', 'token', resp.status, rawBody);
     }
     // ! Fail if expires_in property is not available
     if (!body.expires_in) {
-      throw new AuthError('No expiration time', resp.status, rawBody);
+      throw new ApiError('No expiration time', 'token', resp.status, rawBody);
     }
 
     // * Store the auth session
@@ -211,29 +362,111 @@ export class EoMiniApi {
     // ! Fail if the auth session header is not available
     // * This is a last resort check
     if (!this.authSessionHeader) {
-      throw new AuthError('No auth session header', resp.status, rawBody);
+      throw new ApiError('No auth session header', 'token', resp.status, rawBody);
     }
   }
 
   /**
-   * Make a request
+   * Typed error of a non-2xx response
+   * @param endpoint Requested endpoint
+   * @param resp Response
+   * @param rawBody Response body
+   */
+  private responseError(endpoint: string, resp: FetchResponse, rawBody: string) {
+    switch (true) {
+      case resp.status === 401:
+        return new AuthError('Unauthorized', resp.status, rawBody);
+      case resp.status === 404:
+        return new NotFoundError(endpoint, rawBody);
+      case resp.status === 429: {
+        const retryAfter = parseInt(resp.headers.get('retry-after') || '', 10);
+
+        return new RateLimitedError(endpoint, rawBody, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+      }
+      case resp.status >= 500:
+        return new ServerError(endpoint, resp.status, rawBody);
+      default:
+        return new RequestError(endpoint, resp.status, rawBody);
+    }
+  }
+
+  /**
+   * Fetch an endpoint and read the body, within the request timeout
+   * @param endpoint Endpoint to request
+   * @param init Fetch options
+   * @returns Response and raw body
+   */
+  private async fetch(endpoint: string, init: RequestInit) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const resp = await fetch(`${this.base}/${endpoint}`, { ...init, signal: controller.signal });
+      const rawBody = await resp.text();
+
+      return { resp, rawBody };
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new TimeoutError(endpoint, this.timeout);
+      }
+
+      throw new NetworkError(endpoint, err);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Make a request, retrying transient failures of idempotent requests
    * @param method HTTP Method
    * @param endpoint Endpoint to request
    * @param opts Options
    * @returns Response
    */
   private async request<T extends object = object>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    opts: RequestOpts = {},
+  ): Promise<Response<T>> {
+    const retries = method === 'GET' ? this.retry.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.requestOnce<T>(method, endpoint, opts);
+      } catch (err) {
+        if (attempt >= retries || !isRetryable(err)) {
+          throw err;
+        }
+
+        // ! Never hold the account queue longer than `maxDelay`, the poll scheduler waits instead
+        if (err instanceof RateLimitedError && (err.retryAfter || 0) > this.retry.maxDelay) {
+          throw err;
+        }
+
+        // * Full jitter, unless the server told us how long to wait
+        const delay =
+          (err instanceof RateLimitedError && err.retryAfter) ||
+          Math.random() * Math.min(this.retry.maxDelay, this.retry.minDelay * 2 ** attempt);
+
+        this.log.debug('Retrying', method, endpoint, 'in', Math.round(delay), 'ms:', (err as Error).message);
+
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async requestOnce<T extends object = object>(
     method: 'GET' | 'POST',
     endpoint: string,
     { expect = true, headers = {}, body = undefined }: RequestOpts = {},
+    retried = false,
   ): Promise<Response<T>> {
     // ! Always auth if the auth session header is not available
     if (!this.authSessionHeader) {
       await this.auth();
     }
 
-    const url = `${this.base}/${endpoint}`;
-    const resp = await fetch(url, {
+    const { resp, rawBody } = await this.fetch(endpoint, {
       method,
       headers: {
         Accept: 'application/json',
@@ -244,12 +477,19 @@ export class EoMiniApi {
       body,
     });
 
-    const rawBody = await resp.text();
-
     this.log.debug('Response', resp.status, resp.ok, rawBody);
 
+    // * Token revoked or expired server side, re-authenticate and retry once
+    if (resp.status === 401 && !retried) {
+      this.log.debug('Unauthorized, re-authenticating', endpoint);
+
+      this._authSession = undefined;
+
+      return this.requestOnce<T>(method, endpoint, { expect, headers, body }, true);
+    }
+
     if (!resp.ok) {
-      throw new Error('Request failed: ' + rawBody);
+      throw this.responseError(endpoint, resp, rawBody);
     }
 
     let respBody = {} as T;
@@ -259,7 +499,7 @@ export class EoMiniApi {
       try {
         respBody = JSON.parse(rawBody) as T;
       } catch (err) {
-        throw new Error('Response not JSON: ' + rawBody);
+        throw new ApiError('Response not JSON', endpoint, resp.status, rawBody);
       }
     }
 
@@ -296,20 +536,21 @@ export class EoMiniApi {
    * @param address EO Mini Address
    */
   async miniStatus(address: string) {
-    const { body } = await this.request<ResponseMiniStatus>('GET', `api/mini/status?address=${address}`);
+    const endpoint = `api/mini/status?${new URLSearchParams({ address })}`;
+    const { body } = await this.request<ResponseMiniStatus>('GET', endpoint);
 
     if (!body.hubStatus.match(/^2..$/i)) {
-      throw new Error(`HUB not connected (${body.hubStatus})`);
+      throw new HubOfflineError(endpoint, body.hubStatus);
     }
     if (!body.miniStatus.match(/^2..$/i)) {
-      throw new Error(`MINI not connected (${body.miniStatus})`);
+      throw new MiniOfflineError(endpoint, body.miniStatus);
     }
   }
 
   async miniEnable(address: string) {
     await this.request<object>('POST', 'api/mini/enable', {
       expect: false,
-      body: `id=${address}`,
+      body: new URLSearchParams({ id: address }).toString(),
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     });
   }
@@ -317,19 +558,32 @@ export class EoMiniApi {
   async miniDisable(address: string) {
     await this.request<object>('POST', 'api/mini/disable', {
       expect: false,
-      body: `id=${address}`,
+      body: new URLSearchParams({ id: address }).toString(),
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     });
   }
 
-  async session() {
-    const { body } = await this.request<ResponseSession>('GET', 'api/session');
+  /**
+   * Current charging session
+   * @returns Session or null when there is no session
+   */
+  async session(): Promise<ResponseSession | null> {
+    try {
+      const { body } = await this.request<ResponseSession>('GET', 'api/session');
 
-    return body;
+      return body || null;
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return null;
+      }
+
+      throw err;
+    }
   }
 
   /**
    * Cable/Vehicle connected
+   * Only a client error means "not connected", any other failure is thrown
    */
   async sessionAlive() {
     try {
@@ -337,7 +591,11 @@ export class EoMiniApi {
 
       return true;
     } catch (err) {
-      return false;
+      if (err instanceof NotFoundError || err instanceof RequestError) {
+        return false;
+      }
+
+      throw err;
     }
   }
 
@@ -0,0 +1,113 @@
+import type { Logging } from 'homebridge';
+
+import { isInWindow } from './scheduler.js';
+import type { AutoLockConfig } from './settings.js';
+
+/**
+ * Auto-lock state persisted in `accessory.context.autoLock`
+ */
+export interface AutoLockContext {
+  /**
+   * Somebody is home (occupancy input)
+   */
+  home: boolean;
+  /**
+   * Cable connected at the previous evaluation
+   */
+  plugged?: boolean;
+  /**
+   * End of the last session (plugged → unplugged transition)
+   */
+  unpluggedAt?: number;
+  /**
+   * Already locked for the current unplug/away period, a manual unlock holds until the next one
+   */
+  locked?: boolean;
+}
+
+/**
+ * Auto Lock
+ * Disables the charger some minutes after the cable has been unplugged and/or when nobody is home,
+ * except within the allowed windows.
+ */
+export class AutoLock {
+  constructor(
+    private readonly id: string,
+    private readonly log: Logging,
+    private readonly config: AutoLockConfig,
+    private readonly context: AutoLockContext,
+  ) {}
+
+  get configured() {
+    return !!this.config.afterUnplug || !!this.config.away;
+  }
+
+  get home() {
+    return this.context.home;
+  }
+
+  set home(value: boolean) {
+    if (value === this.context.home) {
+      return;
+    }
+
+    this.log.info(this.id, 'Presence', value ? 'home' : 'away');
+
+    this.context.home = value;
+
+    if (!value) {
+      this.context.locked = false;
+    }
+  }
+
+  /**
+   * Record the lock for the current unplug/away period, once the charger is confirmed disabled
+   */
+  markLocked() {
+    this.context.locked = true;
+  }
+
+  /**
+   * Evaluate the auto-lock rules
+   * @param sessionAlive Cable connected
+   * @param disabled Charger already disabled
+   * @param timezone Charger timezone
+   * @returns Reason to lock the charger, if any
+   */
+  evaluate(sessionAlive: boolean, disabled: boolean, timezone?: string, now = Date.now()) {
+    if (sessionAlive) {
+      this.context.plugged = true;
+      this.context.unpluggedAt = undefined;
+      this.context.locked = false;
+      return undefined;
+    }
+
+    // ! Only a session ending starts the unplug delay, not a charger that was never plugged
+    if (this.context.plugged) {
+      this.context.unpluggedAt = now;
+    }
+
+    this.context.plugged = false;
+
+    if (!this.configured || disabled || this.context.locked) {
+      return undefined;
+    }
+
+    if (this.config.unlockedWindows?.length && isInWindow(this.config.unlockedWindows, new Date(now), timezone)) {
+      this.log.debug(this.id, 'Auto-lock: within an unlocked window');
+      return undefined;
+    }
+
+    if (this.config.away && !this.context.home) {
+      return 'nobody home';
+    } else if (
+      this.config.afterUnplug &&
+      this.context.unpluggedAt !== undefined &&
+      now - this.context.unpluggedAt >= this.config.afterUnplug * 60 * 1000
+    ) {
+      return `unplugged for more than ${this.config.afterUnplug} min`;
+    }
+
+    return undefined;
+  }
+}
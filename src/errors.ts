@@ -0,0 +1,136 @@
+/**
+ * Base class for every failure talking to the EO API
+ */
+export class ApiError extends Error {
+  isApiError = true;
+
+  constructor(
+    message: string,
+    readonly endpoint: string,
+    readonly status?: number,
+    readonly body?: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+
+    this.name = 'ApiError';
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+export class AuthError extends ApiError {
+  isAuthError = true;
+
+  constructor(message: string, readonly status: number, readonly body: string) {
+    super(`Authentication failed: ${message}`, 'token', status, body);
+
+    this.name = 'AuthError';
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+/**
+ * The request never got a response (DNS, connection refused/reset, ...)
+ */
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : cause;
+
+    super(`Network error on ${endpoint}: ${reason}`, endpoint, undefined, undefined, { cause });
+
+    this.name = 'NetworkError';
+    Object.setPrototypeOf(this, NetworkError.prototype);
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor(endpoint: string, readonly timeout: number) {
+    super(`Request to ${endpoint} timed out after ${timeout}ms`, endpoint);
+
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  /**
+   * @param retryAfter Milliseconds to wait as requested by the server (if any)
+   */
+  constructor(endpoint: string, body: string, readonly retryAfter?: number) {
+    super(`Rate limited on ${endpoint}`, endpoint, 429, body);
+
+    this.name = 'RateLimitedError';
+    Object.setPrototypeOf(this, RateLimitedError.prototype);
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(endpoint: string, status: number, body: string) {
+    super(`Server error on ${endpoint} (${status})`, endpoint, status, body);
+
+    this.name = 'ServerError';
+    Object.setPrototypeOf(this, ServerError.prototype);
+  }
+}
+
+/**
+ * Resource not found, for session endpoints it means there is no session
+ */
+export class NotFoundError extends ApiError {
+  constructor(endpoint: string, body: string) {
+    super(`Not found ${endpoint}`, endpoint, 404, body);
+
+    this.name = 'NotFoundError';
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+/**
+ * Any other non-2xx response
+ */
+export class RequestError extends ApiError {
+  constructor(endpoint: string, status: number, body: string) {
+    super(`Request failed on ${endpoint} (${status}): ${body}`, endpoint, status, body);
+
+    this.name = 'RequestError';
+    Object.setPrototypeOf(this, RequestError.prototype);
+  }
+}
+
+export class HubOfflineError extends ApiError {
+  constructor(endpoint: string, readonly hubStatus: string) {
+    super(`HUB not connected (${hubStatus})`, endpoint);
+
+    this.name = 'HubOfflineError';
+    Object.setPrototypeOf(this, HubOfflineError.prototype);
+  }
+}
+
+export class MiniOfflineError extends ApiError {
+  constructor(endpoint: string, readonly miniStatus: string) {
+    super(`MINI not connected (${miniStatus})`, endpoint);
+
+    this.name = 'MiniOfflineError';
+    Object.setPrototypeOf(this, MiniOfflineError.prototype);
+  }
+}
+
+/**
+ * A charger command could not be sent, is not allowed right now, was not confirmed by the polled state
+ * or expired while queued during a cloud outage
+ */
+export class CommandError extends Error {
+  isCommandError = true;
+
+  constructor(
+    message: string,
+    readonly command: string,
+    readonly reason: 'offline' | 'not_allowed' | 'failed' | 'unconfirmed' | 'expired',
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+
+    this.name = 'CommandError';
+    Object.setPrototypeOf(this, CommandError.prototype);
+  }
+}
@@ -0,0 +1,263 @@
+import type { CharacteristicValue, Logging, PlatformAccessory, Service } from 'homebridge';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { EOMiniPlatform } from './platform.js';
+import { PLUGIN_NAME } from './settings.js';
+
+/**
+ * Eve history keeps time as seconds since 2001-01-01T00:00:00Z
+ */
+const EPOCH = Math.round(new Date('2001-01-01T00:00:00Z').valueOf() / 1000);
+
+/**
+ * 4 weeks of 1 entry per 10 minutes (same as fakegato-history)
+ */
+const MEMORY_SIZE = 6 * 24 * 7 * 4;
+
+/**
+ * Interval between two history entries
+ */
+const ENTRY_INTERVAL = 10 * 60 * 1000;
+
+/**
+ * Fingerprint of the energy history: 1 value, tag 0x07 (power), 2 bytes
+ */
+const FINGERPRINT = Buffer.from('010702', 'hex');
+
+interface HistoryEntry {
+  time: number;
+  power: number;
+}
+
+interface HistoryData {
+  memorySize: number;
+  firstEntry: number;
+  lastEntry: number;
+  entries: (HistoryEntry | null)[];
+  initialTime: number;
+  totalKWh: number;
+  time: number;
+}
+
+/**
+ * Current time in seconds since NodeJS epoch
+ */
+const now = () => Math.round(Date.now() / 1000);
+
+/**
+ * Eve History
+ * Fakegato-compatible energy history for an accessory, persisted in the Homebridge storage path.
+ * Each entry holds the average power (in 0.1 W) since the previous entry, which is what the Eve app
+ * uses to draw the consumption graphs.
+ */
+export class EveHistory {
+  private service: Service;
+
+  private log: Logging;
+
+  private file: string;
+
+  private data: HistoryData;
+
+  private currentEntry = 1;
+  private transfer = false;
+
+  private interval: NodeJS.Timeout;
+
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly id: string,
+    private readonly getTotalKWh: () => number,
+    private readonly onResetTotal: () => void,
+  ) {
+    this.log = this.platform.log;
+
+    this.file = path.join(this.platform.api.user.storagePath(), `${PLUGIN_NAME}_${this.id}_history.json`);
+
+    this.data = this.load();
+
+    const { Services, Characteristics } = this.platform.eve;
+
+    this.service =
+      this.accessory.getService(Services.History) ||
+      this.accessory.addService(new Services.History(this.accessory.displayName + ' History'));
+
+    this.service.getCharacteristic(Characteristics.HistoryRequest).onSet(this.setHistoryRequest.bind(this));
+
+    this.service.getCharacteristic(Characteristics.HistoryEntries).onGet(this.getHistoryEntries.bind(this));
+
+    this.service.getCharacteristic(Characteristics.SetTime).onSet((value: CharacteristicValue) => {
+      const time = Buffer.from(value as string, 'base64').readUInt32LE() + EPOCH;
+
+      this.log.debug(this.id, 'History SetTime', new Date(time * 1000));
+    });
+
+    this.service
+      .getCharacteristic(Characteristics.ResetTotal)
+      .onSet(this.setResetTotal.bind(this))
+      .updateValue(0);
+
+    this.updateStatus();
+
+    this.interval = setInterval(() => {
+      this.addEntry();
+    }, ENTRY_INTERVAL);
+  }
+
+  stop() {
+    clearInterval(this.interval);
+  }
+
+  /**
+   * Load the history from disk or initialize a new one
+   */
+  private load(): HistoryData {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.file, 'utf8')) as HistoryData;
+
+      if (data.memorySize === MEMORY_SIZE && data.initialTime <= now()) {
+        this.log.debug(this.id, 'Restored history entries', data.firstEntry, '->', data.lastEntry);
+
+        return data;
+      }
+
+      this.log.warn(this.id, 'Resetting history (incompatible or from the future)');
+    } catch (err) {
+      this.log.debug(this.id, 'No history found', this.file);
+    }
+
+    return {
+      memorySize: MEMORY_SIZE,
+      firstEntry: 1,
+      lastEntry: 1,
+      entries: [null, null],
+      initialTime: now(),
+      totalKWh: this.getTotalKWh(),
+      time: now(),
+    };
+  }
+
+  /**
+   * Persist the history to disk
+   */
+  private save() {
+    try {
+      fs.writeFileSync(this.file, JSON.stringify(this.data));
+    } catch (err) {
+      this.log.error(this.id, 'Failed to save history', err);
+    }
+  }
+
+  /**
+   * Add an entry with the average power since the previous entry
+   */
+  addEntry() {
+    const time = now();
+    const totalKWh = this.getTotalKWh();
+
+    // * Total consumption has been reset
+    if (totalKWh < this.data.totalKWh) {
+      this.data.totalKWh = 0;
+    }
+
+    const period = time - this.data.time;
+    const power = period > 0 ? ((totalKWh - this.data.totalKWh) * 1000 * 3600) / period : 0;
+
+    this.data.totalKWh = totalKWh;
+    this.data.time = time;
+
+    if (this.data.lastEntry - this.data.firstEntry + 1 >= this.data.memorySize) {
+      this.data.firstEntry++;
+    }
+    this.data.lastEntry++;
+    this.data.entries[this.data.lastEntry % this.data.memorySize] = { time, power: Math.round(power * 10) };
+
+    this.log.debug(this.id, 'History entry', this.data.lastEntry, power, 'W');
+
+    this.updateStatus(time);
+    this.save();
+  }
+
+  /**
+   * Update the History Status characteristic so the Eve app knows which entries are available
+   */
+  private updateStatus(time = now()) {
+    const buffer = Buffer.alloc(1024);
+    let offset = 0;
+
+    offset = buffer.writeUInt32LE(time - this.data.initialTime, offset);
+    offset = buffer.writeUInt32LE(0, offset);
+    offset = buffer.writeUInt32LE(this.data.initialTime - EPOCH, offset);
+    offset += FINGERPRINT.copy(buffer, offset);
+    offset = buffer.writeUInt16LE(this.data.lastEntry - this.data.firstEntry + 1, offset);
+    offset = buffer.writeUInt16LE(this.data.memorySize, offset);
+    offset = buffer.writeUInt32LE(this.data.firstEntry, offset);
+    offset = buffer.writeUInt32LE(0, offset);
+    offset = buffer.writeUInt8(1, offset);
+    offset = buffer.writeUInt8(1, offset);
+
+    this.service.updateCharacteristic(
+      this.platform.eve.Characteristics.HistoryStatus,
+      buffer.subarray(0, offset).toString('base64'),
+    );
+  }
+
+  private setHistoryRequest(value: CharacteristicValue) {
+    const entry = Buffer.from(value as string, 'base64').readUInt32LE(2);
+
+    this.log.debug(this.id, 'History request', entry, `(${this.data.firstEntry} -> ${this.data.lastEntry})`);
+
+    this.currentEntry = Math.max(this.data.firstEntry, entry);
+    this.transfer = true;
+  }
+
+  private getHistoryEntries() {
+    if (!this.transfer || this.currentEntry > this.data.lastEntry) {
+      this.transfer = false;
+
+      return Buffer.from('00', 'hex').toString('base64');
+    }
+
+    const buffer = Buffer.alloc(1024);
+    let offset = 0;
+
+    // * Send at most 11 entries per read
+    for (let i = 0; i < 11 && this.currentEntry <= this.data.lastEntry; i++, this.currentEntry++) {
+      // * First entry is always the reference time
+      if (this.currentEntry === this.data.firstEntry) {
+        offset = buffer.writeUInt8(21, offset);
+        offset = buffer.writeUInt32LE(this.currentEntry, offset);
+        offset += buffer.write('0100000081', offset, 'hex');
+        offset = buffer.writeUInt32LE(this.data.initialTime - EPOCH, offset);
+        offset += buffer.write('00000000000000', offset, 'hex');
+        continue;
+      }
+
+      const entry = this.data.entries[this.currentEntry % this.data.memorySize];
+
+      if (!entry) {
+        continue;
+      }
+
+      offset = buffer.writeUInt8(12, offset);
+      offset = buffer.writeUInt32LE(this.currentEntry, offset);
+      offset = buffer.writeUInt32LE(entry.time - this.data.initialTime, offset);
+      offset = buffer.writeUInt8(0x01, offset);
+      offset = buffer.writeUInt16LE(entry.power, offset);
+    }
+
+    return buffer.subarray(0, offset).toString('base64');
+  }
+
+  private setResetTotal(value: CharacteristicValue) {
+    this.log.info(this.id, 'Reset total consumption', value);
+
+    this.onResetTotal();
+
+    this.data.totalKWh = 0;
+    this.data.time = now();
+    this.save();
+  }
+}
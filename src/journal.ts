@@ -0,0 +1,233 @@
+import type { Logging } from 'homebridge';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { ResponseSession } from './api.js';
+import type { EOMiniPlatform } from './platform.js';
+import { PLUGIN_NAME } from './settings.js';
+
+/**
+ * Open session persisted in `accessory.context.journal`, recorded once it ends
+ */
+export interface JournalContext {
+  session: ResponseSession | null;
+  seenAt: number;
+  /**
+   * Cost metered with the tariff prices, `null` when unknown
+   */
+  cost?: number | null;
+}
+
+/**
+ * Completed charging session
+ */
+export interface JournalEntry {
+  id: number;
+  address: string;
+  vehicle: string | null;
+  start: string;
+  end: string;
+  /**
+   * Year and month (`YYYY-MM`) the session started, in the charger timezone
+   */
+  month: string;
+  kwh: number;
+  cost: number;
+  /**
+   * Cost computed by EO with the account flat rate
+   */
+  eoCost?: number;
+  currency: string | null;
+  /**
+   * Charging time in seconds
+   */
+  chargingTime: number;
+}
+
+export interface JournalSummary {
+  month: string;
+  vehicle: string | null;
+  sessions: number;
+  kwh: number;
+  cost: number;
+  chargingHours: number;
+}
+
+export interface JournalFilter {
+  address?: string;
+  vehicle?: string;
+  from?: string;
+  to?: string;
+}
+
+const CSV_COLUMNS: (keyof JournalEntry)[] = [
+  'id',
+  'address',
+  'vehicle',
+  'start',
+  'end',
+  'month',
+  'kwh',
+  'cost',
+  'eoCost',
+  'currency',
+  'chargingTime',
+];
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Year and month (`YYYY-MM`) of a date in the given timezone
+ */
+const monthOf = (date: Date, timezone?: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone || undefined, year: 'numeric', month: '2-digit' })
+      .format(date)
+      .slice(0, 7);
+  } catch (err) {
+    return date.toISOString().slice(0, 7);
+  }
+};
+
+const csvValue = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Session Journal
+ * Completed sessions of every charger, persisted in the Homebridge storage path, with CSV/JSON export
+ * and per-month/per-vehicle summaries (e.g. for expense reimbursement).
+ */
+export class SessionJournal {
+  private log: Logging;
+
+  private file: string;
+
+  private entries: JournalEntry[];
+
+  constructor(private readonly platform: EOMiniPlatform) {
+    this.log = this.platform.log;
+
+    this.file = path.join(this.platform.api.user.storagePath(), `${PLUGIN_NAME}_sessions.json`);
+
+    this.entries = this.load();
+  }
+
+  private load(): JournalEntry[] {
+    try {
+      const entries = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+
+      if (Array.isArray(entries)) {
+        this.log.debug('Restored', entries.length, 'journal sessions');
+
+        return entries;
+      }
+    } catch (err) {
+      this.log.debug('No session journal found', this.file);
+    }
+
+    return [];
+  }
+
+  private save() {
+    try {
+      fs.writeFileSync(this.file, JSON.stringify(this.entries));
+    } catch (err) {
+      this.log.error('Failed to save the session journal', (err as Error).message);
+    }
+  }
+
+  /**
+   * Record a completed session
+   * @param address Charger address
+   * @param context Open session
+   * @param vehicle Vehicle name
+   * @param currency Currency code
+   * @param timezone Charger timezone
+   */
+  record(address: string, context: JournalContext, vehicle: string | null, currency: string | null, timezone?: string) {
+    const { session, seenAt, cost } = context;
+
+    if (!session) {
+      return;
+    }
+
+    if (this.entries.some((entry) => entry.address === address && entry.id === session.USID)) {
+      this.log.debug(address, 'Session', session.USID, 'already in the journal');
+      return;
+    }
+
+    // * PiTime is the plug-in time (Unix seconds), fallback to the first time the session was seen
+    const start = new Date(session.PiTime ? session.PiTime * 1000 : seenAt);
+    const entry: JournalEntry = {
+      id: session.USID,
+      address,
+      vehicle,
+      start: start.toISOString(),
+      end: new Date().toISOString(),
+      month: monthOf(start, timezone),
+      kwh: session.ESKWH,
+      // * Tariff cost when metered for the whole session
+      cost: typeof cost === 'number' ? round(cost, 2) : session.ESCost,
+      eoCost: session.ESCost,
+      currency,
+      chargingTime: session.ChargingTime,
+    };
+
+    this.log.info(address, 'Session', entry.id, 'ended:', entry.kwh, 'kWh,', entry.cost, currency || '');
+
+    this.entries.push(entry);
+    this.save();
+  }
+
+  /**
+   * Sessions matching the filter, `from`/`to` compare with the start (ISO date or `YYYY-MM`)
+   */
+  list({ address, vehicle, from, to }: JournalFilter = {}) {
+    return this.entries.filter(
+      (entry) =>
+        (!address || entry.address === address) &&
+        (!vehicle || entry.vehicle === vehicle) &&
+        (!from || entry.start >= from) &&
+        (!to || entry.start.slice(0, to.length) <= to),
+    );
+  }
+
+  toCsv(filter?: JournalFilter) {
+    return [CSV_COLUMNS, ...this.list(filter).map((entry) => CSV_COLUMNS.map((column) => entry[column]))]
+      .map((row) => row.map(csvValue).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Energy, cost and charging hours per month and vehicle
+   */
+  summary(filter?: JournalFilter) {
+    const summaries = new Map<string, JournalSummary>();
+
+    for (const entry of this.list(filter)) {
+      const key = `${entry.month}|${entry.vehicle}`;
+      const summary = summaries.get(key) || {
+        month: entry.month,
+        vehicle: entry.vehicle,
+        sessions: 0,
+        kwh: 0,
+        cost: 0,
+        chargingHours: 0,
+      };
+
+      summary.sessions += 1;
+      summary.kwh = round(summary.kwh + entry.kwh);
+      summary.cost = round(summary.cost + entry.cost, 2);
+      summary.chargingHours = round(summary.chargingHours + entry.chargingTime / 3600, 2);
+
+      summaries.set(key, summary);
+    }
+
+    return [...summaries.values()].sort(
+      (a, b) => a.month.localeCompare(b.month) || (a.vehicle || '').localeCompare(b.vehicle || ''),
+    );
+  }
+}
@@ -0,0 +1,262 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { Logging } from 'homebridge';
+import fetch from 'node-fetch';
+
+import type { EOMiniPlatform } from './platform.js';
+import type { ChargerCommand, ChargerEvent, ChargerSettings, ChargerState } from './platformAccessory.js';
+import type { LocalApiConfig } from './settings.js';
+
+const COMMANDS: ChargerCommand[] = ['enable', 'disable', 'pause', 'unpause'];
+
+const WEBHOOK_TIMEOUT = 5 * 1000;
+
+const readJson = async (req: http.IncomingMessage) => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString() || '{}');
+};
+
+/**
+ * Check the bearer token in constant time, the digests even out the lengths
+ */
+const isAuthorized = (authorization: string | undefined, token: string) => {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+
+  return crypto.timingSafeEqual(digest(authorization || ''), digest(`Bearer ${token}`));
+};
+
+const send = (res: http.ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+/**
+ * Local API
+ * Optional HTTP server exposing the chargers state and commands to other home systems,
+ * plus webhooks posted on state transitions. Every call requires the configured bearer token, the webhooks
+ * send their own one, if any.
+ *
+ * - `GET /devices` all the chargers state
+ * - `GET /devices/:address` one charger state
+ * - `POST /devices/:address/(enable|disable|pause|unpause)` run a command
+ * - `POST /devices/:address/vehicle` set the vehicle starting charge (`{ "startSoc": 40 }`)
+ * - `POST /presence` set the auto-lock presence of all the chargers (`{ "home": false }`)
+ * - `GET /sessions` completed sessions, `?format=csv` and `address`, `vehicle`, `from`, `to` filters
+ * - `GET /sessions/summary` sessions per month and vehicle
+ */
+export class LocalApi {
+  private server: http.Server | undefined = undefined;
+
+  private log: Logging;
+
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly config: LocalApiConfig,
+  ) {
+    this.log = this.platform.log;
+  }
+
+  start() {
+    if (this.config.enabled === false) {
+      return;
+    }
+    if (!this.config.token) {
+      this.log.error('Local API requires a token, not starting');
+      return;
+    }
+
+    const port = this.config.port || 8586;
+    const host = this.config.host || '127.0.0.1';
+
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        this.log.error('Local API', req.method, req.url, err);
+        send(res, 500, { error: (err as Error).message });
+      });
+    });
+
+    this.server.on('error', (err) => {
+      this.log.error('Local API server error', err.message);
+    });
+
+    this.server.listen(port, host, () => {
+      this.log.info('Local API listening on', `${host}:${port}`);
+    });
+  }
+
+  stop() {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (!isAuthorized(req.headers.authorization, this.config.token!)) {
+      return send(res, 401, { error: 'Unauthorized' });
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [resource, address, command, ...rest] = url.pathname.split('/').filter(Boolean);
+
+    if (resource === 'presence' && !address) {
+      return this.handlePresence(req, res);
+    }
+
+    if (resource === 'sessions' && !command) {
+      return this.handleSessions(req, res, url, address);
+    }
+
+    if (resource !== 'devices' || rest.length) {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    if (!address) {
+      if (req.method !== 'GET') {
+        return send(res, 405, { error: 'Method not allowed' });
+      }
+
+      return send(res, 200, [...this.platform.chargers.values()].map((charger) => charger.state));
+    }
+
+    const charger = this.platform.chargers.get(decodeURIComponent(address));
+
+    if (!charger) {
+      return send(res, 404, { error: 'Device not found' });
+    }
+
+    if (!command) {
+      return req.method === 'GET' ? send(res, 200, charger.state) : send(res, 405, { error: 'Method not allowed' });
+    }
+
+    if (req.method !== 'POST') {
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+    if (command === 'vehicle') {
+      let settings: ChargerSettings;
+
+      try {
+        const body = await readJson(req);
+
+        settings = { startSoc: body.startSoc };
+      } catch (err) {
+        return send(res, 400, { error: 'Invalid JSON body' });
+      }
+
+      try {
+        charger.applySettings(settings);
+      } catch (err) {
+        return send(res, 400, { error: (err as Error).message });
+      }
+
+      return send(res, 200, charger.state);
+    }
+    if (!COMMANDS.includes(command as ChargerCommand)) {
+      return send(res, 404, { error: 'Unknown command' });
+    }
+
+    this.log.info(charger.state.address, 'Local API command', command);
+
+    let queued: boolean;
+
+    try {
+      queued = await charger.runCommand(command as ChargerCommand);
+    } catch (err) {
+      return send(res, 409, { error: (err as Error).message });
+    }
+
+    // * Accepted, replayed once the EO cloud is back
+    return send(res, queued ? 202 : 200, charger.state);
+  }
+
+  private async handlePresence(req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.method !== 'POST') {
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+
+    let home: unknown;
+
+    try {
+      ({ home } = await readJson(req));
+    } catch (err) {
+      return send(res, 400, { error: 'Invalid JSON body' });
+    }
+
+    if (typeof home !== 'boolean') {
+      return send(res, 400, { error: 'Invalid home' });
+    }
+
+    for (const charger of this.platform.chargers.values()) {
+      charger.applySettings({ home });
+    }
+
+    return send(res, 200, { home });
+  }
+
+  private handleSessions(req: http.IncomingMessage, res: http.ServerResponse, url: URL, view?: string) {
+    const journal = this.platform.journal;
+
+    if (req.method !== 'GET') {
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+    if (!journal || (view && view !== 'summary')) {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    const filter = {
+      address: url.searchParams.get('address') || undefined,
+      vehicle: url.searchParams.get('vehicle') || undefined,
+      from: url.searchParams.get('from') || undefined,
+      to: url.searchParams.get('to') || undefined,
+    };
+
+    if (view === 'summary') {
+      return send(res, 200, journal.summary(filter));
+    }
+
+    if (url.searchParams.get('format') === 'csv') {
+      res.writeHead(200, {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': 'attachment; filename="sessions.csv"',
+      });
+      res.end(journal.toCsv(filter));
+      return;
+    }
+
+    return send(res, 200, journal.list(filter));
+  }
+
+  /**
+   * Post a state transition to the configured webhooks
+   * @param event Event
+   * @param state Charger state
+   */
+  notify(event: ChargerEvent, state: ChargerState) {
+    for (const webhook of this.config.webhooks || []) {
+      if (webhook.events?.length && !webhook.events.includes(event)) {
+        continue;
+      }
+
+      fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(webhook.token && { Authorization: `Bearer ${webhook.token}` }),
+        },
+        body: JSON.stringify({ event, device: state.address, state, timestamp: new Date().toISOString() }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+      })
+        .then((resp) => {
+          if (!resp.ok) {
+            this.log.warn(state.address, 'Webhook', webhook.url, 'responded', resp.status);
+          }
+        })
+        .catch((err) => {
+          this.log.warn(state.address, 'Webhook', webhook.url, 'failed', (err as Error).message);
+        });
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+
+import type { ResponseMini, ResponseSession, ResponseToken, ResponseUser, ResponseVehicle } from '../api.js';
+
+/**
+ * Scriptable state of the mock EO cloud
+ */
+export interface MockState {
+  username: string;
+  password: string;
+  /**
+   * Token lifetime in seconds
+   */
+  tokenTtl: number;
+  hubOnline: boolean;
+  miniOnline: boolean;
+  /**
+   * Cable connected to a vehicle
+   */
+  plugged: boolean;
+  paused: boolean;
+  /**
+   * kWh added to the session on every `api/session` request while charging
+   */
+  kwhPerPoll: number;
+  /**
+   * Answer the next N API requests with `failStatus`
+   */
+  failNext: number;
+  failStatus: number;
+  mini: ResponseMini;
+  session: ResponseSession;
+  user: ResponseUser;
+  vehicle: ResponseVehicle;
+}
+
+export interface MockServer {
+  url: string;
+  state: MockState;
+  /**
+   * Received requests as `METHOD path`
+   */
+  requests: string[];
+  /**
+   * Invalidate all the issued tokens
+   */
+  expireTokens(): void;
+  close(): Promise<void>;
+}
+
+const defaultState = (): MockState => ({
+  username: 'test@example.com',
+  password: 'password',
+  tokenTtl: 3600,
+  hubOnline: true,
+  miniOnline: true,
+  plugged: false,
+  paused: false,
+  kwhPerPoll: 0.1,
+  failNext: 0,
+  failStatus: 500,
+  mini: {
+    address: 'EO-MOCK-1',
+    isDisabled: 0,
+    ct1: 0,
+    ct2: 0,
+    ct3: 0,
+    advertisedRate: 32,
+    voltage: 230,
+    timezone: 'Europe/London',
+    chargerAddress: 'EO-MOCK-CHARGER-1',
+    hubAddress: 'EO-MOCK-HUB-1',
+    chargerModel: 1,
+    hubModel: 1,
+    hubSerial: 'HUB0001',
+  },
+  session: {
+    USID: 1,
+    CPID: 1,
+    PiTime: 0,
+    ESTime: 0,
+    ESCost: 0,
+    ESKWH: 0,
+    ChargingTime: 0,
+    PayR1: 0,
+    PayR2: 0,
+    PayR3: 0,
+    PayR4: 0,
+    ULoc: '',
+    Location: '',
+    Voltage: 230,
+    IsPaused: false,
+    IsOverridden: false,
+  },
+  user: {
+    title: '',
+    firstName: 'Mock',
+    lastName: 'User',
+    userType: 0,
+    host: 0,
+    email: 'test@example.com',
+    mobile: 0,
+    foc: 0,
+    isDemo: 0,
+    trVer: '',
+    ppVer: '',
+    pushUpdated: 0,
+    appSetup: 1,
+    homeHost: 0,
+    AID: 1,
+    distanceUnits: 0,
+    address: '',
+    countryCode: 'GB',
+    chargeDefs: {
+      chargeStart: 0,
+      chargeEnd: 0,
+      chargeMin: 0,
+      solarMode: 0,
+      timeMode: 0,
+    },
+    chargeOpts: {},
+    currency: {
+      code: 'GBP',
+      symbol: '£',
+      decimals: 2,
+    },
+  },
+  vehicle: {
+    ID: 1,
+    Manufacturer: 'Mock',
+    Model: 'EV',
+    Year: 2024,
+    Range: 210,
+    BatteryKWH: 60,
+  },
+});
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const send = (res: http.ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+/**
+ * Start a local stand-in for the EO cloud API
+ * Besides the EO endpoints it exposes `GET|POST /__mock/state` to read or patch the state and
+ * `POST /__mock/expire` to invalidate tokens, so scenarios can be driven from outside the process.
+ * @param port Port to listen on (0 for a random one)
+ * @param state Initial state overrides
+ */
+export const startMockServer = async (port = 0, state: Partial<MockState> = {}): Promise<MockServer> => {
+  const tokens = new Map<string, number>();
+  const requests: string[] = [];
+
+  const mock: Omit<MockServer, 'url' | 'close'> = {
+    state: { ...defaultState(), ...state },
+    requests,
+    expireTokens: () => tokens.clear(),
+  };
+
+  const charge = () => {
+    const { session } = mock.state;
+
+    if (!mock.state.plugged || mock.state.paused) {
+      return;
+    }
+
+    session.ESKWH = Math.round((session.ESKWH + mock.state.kwhPerPoll) * 1000) / 1000;
+    session.ESCost = Math.round(session.ESKWH * 30) / 100;
+    session.ChargingTime += 60;
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+    const body = await readBody(req);
+
+    requests.push(route);
+
+    // * Mock control endpoints
+    switch (route) {
+      case 'GET /__mock/state':
+        return send(res, 200, mock.state);
+      case 'POST /__mock/state':
+        Object.assign(mock.state, JSON.parse(body || '{}'));
+        return send(res, 200, mock.state);
+      case 'POST /__mock/expire':
+        mock.expireTokens();
+        return send(res, 204);
+    }
+
+    if (mock.state.failNext > 0) {
+      mock.state.failNext--;
+      return send(res, mock.state.failStatus, { Message: 'Mock failure' });
+    }
+
+    if (route === 'POST /token') {
+      const form = new URLSearchParams(body);
+
+      if (form.get('username') !== mock.state.username || form.get('password') !== mock.state.password) {
+        return send(res, 400, { error: 'invalid_grant', error_description: 'The user name or password is incorrect.' });
+      }
+
+      const token = randomUUID();
+      tokens.set(token, Date.now() + mock.state.tokenTtl * 1000);
+
+      const resp: ResponseToken = {
+        access_token: token,
+        token_type: 'bearer',
+        expires_in: mock.state.tokenTtl,
+        userName: mock.state.username,
+        '.issued': new Date().toUTCString(),
+        '.expires': new Date(Date.now() + mock.state.tokenTtl * 1000).toUTCString(),
+      };
+      return send(res, 200, resp);
+    }
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const expires = tokens.get(token);
+
+    if (!expires || expires < Date.now()) {
+      return send(res, 401, { Message: 'Authorization has been denied for this request.' });
+    }
+
+    const address = new URLSearchParams(body).get('id') || url.searchParams.get('address');
+
+    switch (route) {
+      case 'GET /api/user':
+        return send(res, 200, mock.state.user);
+      case 'GET /api/mini/list':
+        return send(res, 200, [mock.state.mini]);
+      case 'GET /api/mini/status':
+        if (address !== mock.state.mini.address) {
+          return send(res, 404);
+        }
+        return send(res, 200, {
+          hubStatus: mock.state.hubOnline ? '200' : '503',
+          miniStatus: mock.state.miniOnline ? '200' : '503',
+        });
+      case 'POST /api/mini/enable':
+      case 'POST /api/mini/disable':
+        if (address !== mock.state.mini.address) {
+          return send(res, 404);
+        }
+        mock.state.mini.isDisabled = url.pathname.endsWith('disable') ? 1 : 0;
+        return send(res, 200);
+      case 'GET /api/session':
+        if (!mock.state.plugged) {
+          return send(res, 200, null);
+        }
+        charge();
+        return send(res, 200, { ...mock.state.session, IsPaused: mock.state.paused });
+      case 'GET /api/session/alive':
+        return send(res, mock.state.plugged ? 200 : 404);
+      case 'POST /api/session/Pause':
+      case 'POST /api/session/unpause':
+        if (!mock.state.plugged) {
+          return send(res, 404);
+        }
+        mock.state.paused = url.pathname.endsWith('Pause');
+        return send(res, 200);
+      case 'GET /api/vehicle':
+        return send(res, 200, mock.state.vehicle);
+    }
+
+    return send(res, 404, { Message: `No HTTP resource was found that matches ${route}` });
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((err) => send(res, 500, { Message: String(err) }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+
+  return {
+    ...mock,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+};
+
+// * Run standalone: `npm run mock`
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const { EO_MOCK_PORT = '8090', EO_MOCK_USERNAME, EO_MOCK_PASSWORD } = process.env;
+
+  const server = await startMockServer(parseInt(EO_MOCK_PORT, 10), {
+    ...(EO_MOCK_USERNAME && { username: EO_MOCK_USERNAME }),
+    ...(EO_MOCK_PASSWORD && { password: EO_MOCK_PASSWORD }),
+  });
+
+  console.log('Mock EO cloud listening on', server.url);
+}
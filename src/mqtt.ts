@@ -0,0 +1,259 @@
+import type { Logging } from 'homebridge';
+import mqtt, { MqttClient } from 'mqtt';
+
+import type { ResponseMini, ResponseSession } from './api.js';
+import type { EOMiniPlatform } from './platform.js';
+import type { ChargerCommand, ChargerState } from './platformAccessory.js';
+import type { MqttConfig } from './settings.js';
+
+/**
+ * Command topic payloads (`<prefix>/<address>/set/<command>`), Home Assistant defaults
+ */
+const COMMANDS: Record<string, Record<string, ChargerCommand>> = {
+  lock: { LOCK: 'disable', UNLOCK: 'enable' },
+  charging: { ON: 'unpause', OFF: 'pause' },
+};
+
+/**
+ * MQTT Bridge
+ * Publishes every charger state and the raw EO session/mini to retained topics and runs the commands received
+ * on the `set` topics, with optional Home Assistant discovery.
+ *
+ * - `<prefix>/status` bridge availability (`online`/`offline`)
+ * - `<prefix>/<address>/state` normalized state
+ * - `<prefix>/<address>/session` raw `ResponseSession` (empty when unplugged)
+ * - `<prefix>/<address>/mini` raw `ResponseMini`
+ * - `<prefix>/<address>/set/lock` `LOCK`/`UNLOCK`
+ * - `<prefix>/<address>/set/charging` `ON`/`OFF`
+ */
+export class MqttBridge {
+  private client: MqttClient | undefined = undefined;
+
+  private log: Logging;
+
+  private readonly prefix: string;
+  private readonly discoveryPrefix: string;
+
+  /**
+   * Last payload per topic, republished on reconnect and used to skip unchanged payloads
+   */
+  private payloads: Map<string, string> = new Map();
+  private discovered: Set<string> = new Set();
+
+  /**
+   * Last known mini per address, for the discovery payloads published on reconnect
+   */
+  private devices: Map<string, ResponseMini> = new Map();
+
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly config: MqttConfig,
+  ) {
+    this.log = this.platform.log;
+
+    this.prefix = (this.config.prefix || 'eo-mini').replace(/\/+$/, '');
+    this.discoveryPrefix = (this.config.discoveryPrefix || 'homeassistant').replace(/\/+$/, '');
+  }
+
+  private get availabilityTopic() {
+    return `${this.prefix}/status`;
+  }
+
+  start() {
+    if (!this.config.url) {
+      this.log.error('MQTT requires a broker url, not starting');
+      return;
+    }
+
+    this.client = mqtt.connect(this.config.url, {
+      username: this.config.username || undefined,
+      password: this.config.password || undefined,
+      clientId: this.config.clientId || undefined,
+      reconnectPeriod: 5000,
+      will: { topic: this.availabilityTopic, payload: Buffer.from('offline'), qos: 1, retain: true },
+    });
+
+    this.client.on('connect', () => {
+      this.log.info('MQTT connected to', this.config.url);
+
+      this.client!.publish(this.availabilityTopic, 'online', { qos: 1, retain: true });
+      this.client!.subscribe(`${this.prefix}/+/set/+`, { qos: 1 });
+
+      // * The broker may have lost the retained messages, publish everything again
+      this.discovered.clear();
+      for (const [topic, payload] of this.payloads) {
+        this.client!.publish(topic, payload, { retain: true });
+      }
+      for (const [address, device] of this.devices) {
+        this.discover(address, device);
+      }
+    });
+
+    this.client.on('reconnect', () => {
+      this.log.debug('MQTT reconnecting to', this.config.url);
+    });
+
+    this.client.on('error', (err) => {
+      this.log.warn('MQTT error', err.message);
+    });
+
+    this.client.on('message', (topic, payload) => {
+      this.handle(topic, payload.toString().trim()).catch((err) => {
+        this.log.warn('MQTT command', topic, 'failed', (err as Error).message);
+      });
+    });
+  }
+
+  stop() {
+    if (!this.client) {
+      return;
+    }
+
+    const client = this.client;
+    this.client = undefined;
+
+    client.publish(this.availabilityTopic, 'offline', { qos: 1, retain: true }, () => client.end());
+  }
+
+  private async handle(topic: string, payload: string) {
+    const [address, , command] = topic.slice(this.prefix.length + 1).split('/');
+    const charger = this.platform.chargers.get(address);
+    const action = COMMANDS[command]?.[payload.toUpperCase()];
+
+    if (!charger || !action) {
+      this.log.debug('MQTT ignoring', topic, payload);
+      return;
+    }
+
+    this.log.info(address, 'MQTT command', action);
+
+    await charger.runCommand(action);
+  }
+
+  /**
+   * Publish a retained payload, unless unchanged
+   */
+  private publish(topic: string, value: unknown) {
+    const payload = value === null ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+    if (this.payloads.get(topic) === payload) {
+      return;
+    }
+
+    this.payloads.set(topic, payload);
+
+    if (this.client?.connected) {
+      this.client.publish(topic, payload, { retain: true });
+    }
+  }
+
+  /**
+   * Publish a charger state
+   * @param state Normalized state
+   * @param device Raw mini
+   * @param session Raw session (null when unplugged)
+   */
+  update(state: ChargerState, device: ResponseMini, session: ResponseSession | null) {
+    const base = `${this.prefix}/${state.address}`;
+
+    this.publish(`${base}/state`, state);
+    this.publish(`${base}/session`, session);
+    this.publish(`${base}/mini`, device);
+
+    this.devices.set(state.address, device);
+    this.discover(state.address, device);
+  }
+
+  /**
+   * Publish the Home Assistant discovery payloads, once per connection
+   */
+  private discover(address: string, device: ResponseMini) {
+    if (this.config.discovery === false || this.discovered.has(address) || !this.client?.connected) {
+      return;
+    }
+
+    this.discovered.add(address);
+
+    const base = `${this.prefix}/${address}`;
+    const id = `eo_mini_${address}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const common = {
+      availability_topic: this.availabilityTopic,
+      state_topic: `${base}/state`,
+      device: {
+        identifiers: [id],
+        name: `EO Mini ${address}`,
+        manufacturer: 'EO',
+        model: `${device.chargerModel}`,
+        serial_number: device.chargerAddress,
+      },
+    };
+
+    const entities: [string, string, Record<string, unknown>][] = [
+      [
+        'lock',
+        'lock',
+        {
+          name: 'Lock',
+          command_topic: `${base}/set/lock`,
+          value_template: '{{ "LOCKED" if value_json.locked else "UNLOCKED" }}',
+        },
+      ],
+      [
+        'switch',
+        'charging',
+        {
+          name: 'Charging',
+          icon: 'mdi:ev-station',
+          command_topic: `${base}/set/charging`,
+          value_template: '{{ "ON" if value_json.charging else "OFF" }}',
+        },
+      ],
+      [
+        'binary_sensor',
+        'plugged_in',
+        {
+          name: 'Plugged In',
+          device_class: 'plug',
+          value_template: '{{ "ON" if value_json.pluggedIn else "OFF" }}',
+        },
+      ],
+      [
+        'binary_sensor',
+        'fault',
+        {
+          name: 'Fault',
+          device_class: 'problem',
+          value_template: '{{ "ON" if value_json.fault else "OFF" }}',
+        },
+      ],
+      [
+        'sensor',
+        'session_energy',
+        {
+          name: 'Session Energy',
+          device_class: 'energy',
+          state_class: 'total_increasing',
+          unit_of_measurement: 'kWh',
+          value_template: '{{ value_json.session.kwh if value_json.session else 0 }}',
+        },
+      ],
+      [
+        'sensor',
+        'session_cost',
+        {
+          name: 'Session Cost',
+          icon: 'mdi:cash',
+          value_template: '{{ value_json.session.cost if value_json.session else 0 }}',
+        },
+      ],
+    ];
+
+    for (const [component, key, config] of entities) {
+      this.client.publish(
+        `${this.discoveryPrefix}/${component}/${id}/${key}/config`,
+        JSON.stringify({ ...common, ...config, unique_id: `${id}_${key}`, object_id: `${id}_${key}` }),
+        { retain: true },
+      );
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import type { Logging, PlatformAccessory, Service } from 'homebridge';
+import fetch from 'node-fetch';
+
+import type { ResponseSession } from './api.js';
+import type { EOMiniPlatform } from './platform.js';
+import type { HttpNotifierConfig, NotificationEvent, NotificationsConfig } from './settings.js';
+
+const HTTP_TIMEOUT = 5 * 1000;
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'charging_started',
+  'charging_stopped',
+  'charging_complete',
+  'idle_plugged',
+];
+
+const MESSAGES: Record<NotificationEvent, string> = {
+  charging_started: 'Charging started',
+  charging_stopped: 'Charging stopped unexpectedly',
+  charging_complete: 'Charging complete',
+  idle_plugged: 'Cable plugged in but not charging',
+};
+
+export interface Notification {
+  event: NotificationEvent;
+  address: string;
+  message: string;
+  session: ResponseSession | null;
+}
+
+/**
+ * Charge monitor state persisted in `accessory.context.notifications`
+ */
+export interface NotificationContext {
+  /**
+   * Session (`USID`) the notified events belong to
+   */
+  session?: number;
+  notified: NotificationEvent[];
+  /**
+   * Last time the session energy increased
+   */
+  energyAt?: number;
+  kwh?: number;
+  /**
+   * Since when the cable is plugged in without charging
+   */
+  idleSince?: number;
+  /**
+   * Pause requested by the plugin (HomeKit, schedule, targets, ...), not unexpected
+   */
+  expectPaused?: boolean;
+}
+
+export interface Notifier {
+  notify(notification: Notification): Promise<void>;
+}
+
+/**
+ * Charge Monitor
+ * Detects the charging milestones, each event fires once per session.
+ */
+export class ChargeMonitor {
+  private readonly completeAfter: number;
+  private readonly idleAfter: number;
+
+  constructor(
+    private readonly config: NotificationsConfig,
+    private readonly context: NotificationContext,
+  ) {
+    this.completeAfter = (config.completeAfter ?? 10) * 60 * 1000;
+    this.idleAfter = (config.idleAfter ?? 60) * 60 * 1000;
+  }
+
+  /**
+   * Record a pause/unpause requested by the plugin
+   */
+  expect(paused: boolean) {
+    this.context.expectPaused = paused;
+  }
+
+  /**
+   * Evaluate the current session
+   * @param sessionAlive Cable connected
+   * @param session Current session
+   * @returns Events to notify
+   */
+  evaluate(sessionAlive: boolean, session: ResponseSession | null, now = Date.now()) {
+    const context = this.context;
+
+    if (!sessionAlive || !session) {
+      context.session = undefined;
+      context.notified = [];
+      context.idleSince = undefined;
+      context.expectPaused = undefined;
+      return [];
+    }
+
+    if (context.session !== session.USID) {
+      context.session = session.USID;
+      context.notified = [];
+      context.energyAt = now;
+      context.kwh = session.ESKWH;
+      context.idleSince = undefined;
+    }
+
+    if (session.ESKWH > (context.kwh ?? 0)) {
+      context.energyAt = now;
+      context.kwh = session.ESKWH;
+    }
+
+    const charging = !session.IsPaused && now - (context.energyAt ?? now) < this.completeAfter;
+    const events: NotificationEvent[] = [];
+
+    if (!session.IsPaused && session.ESKWH > 0) {
+      events.push('charging_started');
+    }
+
+    // ! Only once some energy has been delivered, a session starting paused did not stop
+    if (session.IsOverridden || (session.IsPaused && context.expectPaused !== true && session.ESKWH > 0)) {
+      events.push('charging_stopped');
+    }
+
+    if (!session.IsPaused && !charging && session.ESKWH > 0) {
+      events.push('charging_complete');
+    }
+
+    context.idleSince = charging ? undefined : context.idleSince ?? now;
+
+    if (context.idleSince !== undefined && now - context.idleSince >= this.idleAfter) {
+      events.push('idle_plugged');
+    }
+
+    const enabled = this.config.events?.length ? this.config.events : NOTIFICATION_EVENTS;
+    const fresh = events.filter((event) => enabled.includes(event) && !context.notified.includes(event));
+
+    context.notified.push(...fresh);
+
+    return fresh;
+  }
+}
+
+/**
+ * Build a notification
+ */
+export const createNotification = (event: NotificationEvent, address: string, session: ResponseSession | null) => ({
+  event,
+  address,
+  message: `${address}: ${MESSAGES[event]}${session ? ` (${session.ESKWH} kWh)` : ''}`,
+  session,
+});
+
+/**
+ * Generic webhook (JSON) or ntfy-style (plain text with title/tags headers) HTTP notifier
+ */
+export class HttpNotifier implements Notifier {
+  constructor(
+    private readonly log: Logging,
+    private readonly config: HttpNotifierConfig,
+  ) {}
+
+  async notify(notification: Notification) {
+    if (this.config.events?.length && !this.config.events.includes(notification.event)) {
+      return;
+    }
+
+    const auth = this.config.token ? { Authorization: `Bearer ${this.config.token}` } : undefined;
+
+    let init = {
+      headers: { ...auth, 'Content-Type': 'application/json' } as Record<string, string>,
+      body: JSON.stringify({ ...notification, timestamp: new Date().toISOString() }),
+    };
+
+    if (this.config.format === 'ntfy') {
+      init = { headers: { ...auth, Title: 'EO Mini', Tags: notification.event }, body: notification.message };
+    }
+
+    try {
+      const resp = await fetch(this.config.url, {
+        method: 'POST',
+        ...init,
+        signal: AbortSignal.timeout(HTTP_TIMEOUT),
+      });
+
+      if (!resp.ok) {
+        this.log.warn(notification.address, 'Notifier', this.config.url, 'responded', resp.status);
+      }
+    } catch (err) {
+      this.log.warn(notification.address, 'Notifier', this.config.url, 'failed', (err as Error).message);
+    }
+  }
+}
+
+/**
+ * HomeKit notifier, a stateless programmable switch per event to trigger automations
+ */
+export class HomeKitNotifier implements Notifier {
+  private services: Map<NotificationEvent, Service> = new Map();
+
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    accessory: PlatformAccessory,
+    address: string,
+    events: NotificationEvent[],
+  ) {
+    const { Service: Services, Characteristic } = this.platform;
+
+    for (const [index, event] of NOTIFICATION_EVENTS.entries()) {
+      const service = accessory.getServiceById(Services.StatelessProgrammableSwitch, event);
+
+      if (!events.includes(event)) {
+        if (service) {
+          accessory.removeService(service);
+        }
+        continue;
+      }
+
+      const name = `${address} ${MESSAGES[event].replace(/[^a-zA-Z0-9 ]/g, '')}`;
+      const created = service || accessory.addService(Services.StatelessProgrammableSwitch, name, event);
+
+      created
+        .getCharacteristic(Characteristic.ProgrammableSwitchEvent)
+        .setProps({ validValues: [Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS] });
+      created.setCharacteristic(Characteristic.ServiceLabelIndex, index + 1);
+
+      this.services.set(event, created);
+    }
+  }
+
+  async notify(notification: Notification) {
+    const { ProgrammableSwitchEvent } = this.platform.Characteristic;
+
+    this.services
+      .get(notification.event)
+      ?.updateCharacteristic(ProgrammableSwitchEvent, ProgrammableSwitchEvent.SINGLE_PRESS);
+  }
+}
@@ -9,10 +9,20 @@ import type {
 } from 'homebridge';
 
 import { ChargerAccessory } from './platformAccessory.js';
+import { VehicleAccessory } from './vehicleAccessory.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
 
-import { EoMiniApi } from './api.js';
-import PQueue from 'p-queue';
+import { EveHomeKitTypes } from 'homebridge-lib/EveHomeKitTypes';
+import { createPowerSource, PowerSource } from './solar.js';
+import { createTariffSource, TariffSource } from './tariff.js';
+import { LocalApi } from './localApi.js';
+import { MqttBridge } from './mqtt.js';
+import { SessionJournal } from './journal.js';
+import { StatusFile } from './status.js';
+import { EOMiniAccount } from './account.js';
+import { HttpNotifier, Notifier } from './notifier.js';
+import type { AccountConfig, DeviceConfig, HttpNotifierConfig } from './settings.js';
+import type { ResponseMini } from './api.js';
 
 /**
  * HomebridgePlatform
@@ -22,36 +32,106 @@ import PQueue from 'p-queue';
 export class EOMiniPlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service;
   public readonly Characteristic: typeof Characteristic;
+  public readonly eve: EveHomeKitTypes;
 
   // this is used to track restored cached accessories
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
-  public readonly devices: Map<string, string> = new Map();
   public readonly discoveredCacheUUIDs: string[] = [];
 
-  public _client: EoMiniApi | undefined = undefined;
+  /**
+   * EO accounts, the top-level credentials first
+   */
+  public readonly accounts: EOMiniAccount[] = [];
+
+  /**
+   * Accessory handlers by device address
+   */
+  public readonly chargers: Map<string, ChargerAccessory> = new Map();
+
+  /**
+   * Local grid power source shared by all chargers (solar mode)
+   */
+  public solarSource: PowerSource | undefined = undefined;
+
+  /**
+   * Tariff prices shared by all chargers (cheapest hours, session costs)
+   */
+  public tariffSource: TariffSource | undefined = undefined;
+
+  /**
+   * Completed sessions of all the chargers
+   */
+  public journal: SessionJournal | undefined = undefined;
 
-  private timeout: NodeJS.Timeout | undefined = undefined;
+  /**
+   * Last known state of all the chargers, read by the Homebridge UI
+   */
+  public status: StatusFile | undefined = undefined;
+
+  /**
+   * Local HTTP API and webhooks
+   */
+  public localApi: LocalApi | undefined = undefined;
+
+  /**
+   * MQTT bridge
+   */
+  public mqtt: MqttBridge | undefined = undefined;
 
-  public queue: PQueue = new PQueue({ concurrency: 1 });
+  /**
+   * HTTP notifiers of the charging milestones
+   */
+  public notifiers: Notifier[] = [];
 
   constructor(public readonly log: Logging, public readonly config: PlatformConfig, public readonly api: API) {
     this.Service = api.hap.Service;
     this.Characteristic = api.hap.Characteristic;
+    this.eve = new EveHomeKitTypes(api);
 
     // only load if configured
     if (!config) {
       this.log.warn('Missing config to initialize platform:', this.config.name);
       return;
     }
-    if (!this.config.username) {
-      this.log.error('Missing username to initialize platform:', this.config.name);
-      return;
+
+    const accounts: AccountConfig[] = [
+      ...(this.config.username || this.config.password
+        ? [{ username: this.config.username, password: this.config.password }]
+        : []),
+      ...(this.config.accounts || []),
+    ];
+
+    for (const [index, account] of accounts.entries()) {
+      if (!account.username || !account.password) {
+        this.log.error('Missing username or password of account', account.name || index + 1, 'in', this.config.name);
+        continue;
+      }
+      if (this.accounts.some((existing) => existing.id === account.username)) {
+        this.log.error('Duplicate account', account.username, 'in', this.config.name);
+        continue;
+      }
+
+      // * The top-level account keeps the plain device address as UUID seed (backward compatible)
+      const namespace = index === 0 && this.config.username ? '' : `${account.username}/`;
+
+      this.accounts.push(new EOMiniAccount(this, account, namespace));
     }
-    if (!this.config.password) {
-      this.log.error('Missing password to initialize platform:', this.config.name);
+
+    if (!this.accounts.length) {
+      this.log.error('Missing username/password to initialize platform:', this.config.name);
       return;
     }
 
+    this.journal = new SessionJournal(this);
+    this.status = new StatusFile(this);
+    this.solarSource = this.config.solar && createPowerSource(this.log, this.config.solar);
+    this.tariffSource = this.config.tariff && createTariffSource(this.log, this.config.tariff);
+    this.localApi = this.config.localApi && new LocalApi(this, this.config.localApi);
+    this.mqtt = this.config.mqtt && new MqttBridge(this, this.config.mqtt);
+    this.notifiers = ((this.config.notifications?.http || []) as HttpNotifierConfig[])
+      .filter((notifier) => notifier.url)
+      .map((notifier) => new HttpNotifier(this.log, notifier));
+
     this.log.debug('Finished initializing platform:', this.config.name);
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
@@ -62,13 +142,19 @@ export class EOMiniPlatform implements DynamicPlatformPlugin {
       log.debug('Executed didFinishLaunching callback');
       // run the method to discover / register your devices as accessories
       this.discoverDevices();
+      this.localApi?.start();
+      this.mqtt?.start();
     });
-  }
-
-  get client() {
-    this._client = this._client || new EoMiniApi(this.config.username, this.config.password, this.log);
 
-    return this._client;
+    this.api.on('shutdown', () => {
+      this.accounts.forEach((account) => account.stop());
+      this.chargers.forEach((charger) => charger.stop());
+      this.solarSource?.close();
+      this.tariffSource?.close();
+      this.localApi?.stop();
+      this.mqtt?.stop();
+      this.status?.save();
+    });
   }
 
   /**
@@ -82,30 +168,118 @@ export class EOMiniPlatform implements DynamicPlatformPlugin {
     this.accessories.set(accessory.UUID, accessory);
   }
 
-  async listDevices() {
-    return await this.client.miniList();
-  }
-
   /**
    * This is an example method showing how to register discovered accessories.
    * Accessories must only be registered once, previously created accessories
    * must not be registered again to prevent "duplicate UUID" errors.
    */
   async discoverDevices() {
-    const devices = await this.listDevices();
+    const discovered: EOMiniAccount[] = [];
+
+    for (const account of this.accounts) {
+      if (await this.discoverAccount(account)) {
+        discovered.push(account);
+      }
+    }
+
+    // ! Accounts no longer configured
+    this.removeAccessories((owner) => !this.accounts.some((account) => account.id === owner));
+
+    await Promise.all(discovered.map((account) => account.updateDevices()));
+  }
+
+  /**
+   * Discover the devices of an account, retried with the outage backoff until the EO cloud answers
+   * @param account Account
+   * @returns Whether the devices were listed
+   */
+  async discoverAccount(account: EOMiniAccount) {
+    try {
+      await this.discoverAccountDevices(account);
+    } catch (err) {
+      if (!account.store.outage) {
+        this.log.error(account.name, 'Failed to discover devices:', (err as Error).message);
+      }
+
+      // * Serve the cached chargers (last known state, faulted) meanwhile
+      this.restoreCachedChargers(account);
+
+      account.retryDiscovery(err, async () => {
+        if (await this.discoverAccount(account)) {
+          await account.updateDevices();
+        }
+      });
+
+      return false;
+    }
+
+    // you can also deal with accessories from the cache which are no longer present by removing them from Homebridge
+    // for example, if your plugin logs into a cloud account to retrieve a device list, and a user has previously removed a device
+    // from this cloud account, then this device will no longer be present in the device list but will still be in the Homebridge cache
+    // ! Only once the account was successfully listed
+    this.removeAccessories((owner, uuid) => owner === account.id && !this.discoveredCacheUUIDs.includes(uuid));
+
+    return true;
+  }
+
+  /**
+   * Unregister the cached accessories matching a predicate
+   * @param predicate Owner account and UUID of the accessory
+   */
+  private removeAccessories(predicate: (owner: string, uuid: string) => boolean) {
+    for (const [uuid, accessory] of this.accessories) {
+      if (!predicate(accessory.context.account ?? this.accounts[0].id, uuid)) {
+        continue;
+      }
+
+      this.log.info('Removing existing accessory from cache:', accessory.displayName);
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.delete(uuid);
+    }
+  }
+
+  /**
+   * Create the handlers of the cached chargers of an account that could not be listed
+   * @param account Account
+   */
+  restoreCachedChargers(account: EOMiniAccount) {
+    for (const [uuid, accessory] of this.accessories) {
+      const owner = accessory.context.account ?? this.accounts[0].id;
+      const device: ResponseMini | undefined = accessory.context.device;
+
+      // ! Vehicle accessories have no device
+      if (owner !== account.id || !device || this.chargers.has(device.address)) {
+        continue;
+      }
+
+      this.log.info('Restoring accessory from cache until the EO cloud answers:', accessory.displayName);
+
+      account.devices.set(device.address, uuid);
+
+      this.chargers.set(
+        device.address,
+        new ChargerAccessory(this, account, accessory, this.discoverVehicle(account, device.address)),
+      );
+    }
+  }
+
+  async discoverAccountDevices(account: EOMiniAccount) {
+    const devices = await account.client.miniList();
 
     // clear devices map
-    this.devices.clear();
+    account.devices.clear();
 
     // loop over the discovered devices and register each one if it has not already been registered
     for (const device of devices) {
       // generate a unique id for the accessory this should be generated from
       // something globally unique, but constant, for example, the device serial
       // number or MAC address
-      const uuid = this.api.hap.uuid.generate(device.address);
+      const uuid = account.uuid(device.address);
 
       // map device id to uuid
-      this.devices.set(device.address, uuid);
+      account.devices.set(device.address, uuid);
+
+      const name = this.deviceConfig(device.address)?.name || device.address;
 
       // see if an accessory with the same uuid has already been registered and restored from
       // the cached devices we stored in the `configureAccessory` method above
@@ -116,37 +290,44 @@ export class EOMiniPlatform implements DynamicPlatformPlugin {
         this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
 
         existingAccessory.context.device = device;
-        existingAccessory.context.lastUpdated = new Date();
-        existingAccessory.displayName = device.address;
+        existingAccessory.context.account = account.id;
+        existingAccessory.displayName = name;
 
         // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. e.g.:
         // existingAccessory.context.device = device;
         this.api.updatePlatformAccessories([existingAccessory]);
 
+        // ! Already handled when restored during an outage, the next poll updates it
+        if (this.chargers.has(device.address)) {
+          this.discoveredCacheUUIDs.push(uuid);
+          continue;
+        }
+
         // create the accessory handler for the restored accessory
         // this is imported from `platformAccessory.ts`
-        new ChargerAccessory(this, existingAccessory);
-
-        // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, e.g.:
-        // remove platform accessories when no longer present
-        // this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [existingAccessory]);
-        // this.log.info('Removing existing accessory from cache:', existingAccessory.displayName);
+        this.chargers.set(
+          device.address,
+          new ChargerAccessory(this, account, existingAccessory, this.discoverVehicle(account, device.address)),
+        );
       } else {
         // the accessory does not yet exist, so we need to create it
-        this.log.info('Adding new accessory:', device.address);
+        this.log.info('Adding new accessory:', device.address, 'of', account.name);
 
         // create a new accessory
-        const accessory = new this.api.platformAccessory(device.address, uuid);
+        const accessory = new this.api.platformAccessory(name, uuid);
 
         // store a copy of the device object in the `accessory.context`
         // the `context` property can be used to store any data about the accessory you may need
         accessory.context.device = device;
-        accessory.context.lastUpdated = new Date();
-        accessory.displayName = device.address;
+        accessory.context.account = account.id;
+        accessory.displayName = name;
 
         // create the accessory handler for the newly create accessory
         // this is imported from `platformAccessory.ts`
-        new ChargerAccessory(this, accessory);
+        this.chargers.set(
+          device.address,
+          new ChargerAccessory(this, account, accessory, this.discoverVehicle(account, device.address)),
+        );
 
         // link the accessory to your platform
         this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
@@ -157,60 +338,42 @@ export class EOMiniPlatform implements DynamicPlatformPlugin {
       // push into discoveredCacheUUIDs
       this.discoveredCacheUUIDs.push(uuid);
     }
-
-    // you can also deal with accessories from the cache which are no longer present by removing them from Homebridge
-    // for example, if your plugin logs into a cloud account to retrieve a device list, and a user has previously removed a device
-    // from this cloud account, then this device will no longer be present in the device list but will still be in the Homebridge cache
-    for (const [uuid, accessory] of this.accessories) {
-      if (!this.discoveredCacheUUIDs.includes(uuid)) {
-        this.log.info('Removing existing accessory from cache:', accessory.displayName);
-        this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-      }
-    }
-
-    await this.updateDevices();
   }
 
-  async updateDevices() {
-    if (this.timeout) {
-      clearInterval(this.timeout);
-    }
-
-    await this.queue.add(this.updateDevicesInner.bind(this));
-
-    this.timeout = setInterval(() => {
-      setImmediate(() => {
-        this.updateDevices();
-      });
-    }, this.config.refreshRate * 1000);
+  /**
+   * Per charger settings
+   */
+  deviceConfig(address: string) {
+    return ((this.config.devices || []) as DeviceConfig[]).find((device) => device.address === address);
   }
 
-  async updateDevicesInner() {
-    this.log.debug('Updating devices');
-
-    const devices = await this.listDevices();
+  /**
+   * Restore or create the vehicle accessory of a charger, when enabled
+   * @param account Account of the charger
+   * @param address Charger address
+   */
+  discoverVehicle(account: EOMiniAccount, address: string) {
+    if (!this.config.vehicle?.enabled) {
+      return undefined;
+    }
 
-    for (const device of devices) {
-      const uuid = this.devices.get(device.address);
+    const uuid = account.uuid(`${address}/vehicle`);
+    let accessory = this.accessories.get(uuid);
 
-      if (!uuid) {
-        this.log.error('Device not found', device.address);
-        continue;
-      }
+    if (!accessory) {
+      this.log.info('Adding new vehicle accessory:', address);
 
-      const existingAccessory = this.accessories.get(uuid);
+      accessory = new this.api.platformAccessory(`${address} Vehicle`, uuid);
+      accessory.context.account = account.id;
 
-      if (!existingAccessory) {
-        this.log.error('Accessory not found', uuid);
-        continue;
-      }
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+      this.accessories.set(uuid, accessory);
+    } else {
+      accessory.context.account = account.id;
+    }
 
-      existingAccessory.context.device = device;
-      existingAccessory.context.lastUpdated = new Date();
+    this.discoveredCacheUUIDs.push(uuid);
 
-      // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. e.g.:
-      // existingAccessory.context.device = device;
-      this.api.updatePlatformAccessories([existingAccessory]);
-    }
+    return new VehicleAccessory(this, accessory, address);
   }
 }
@@ -1,10 +1,122 @@
-import type { CharacteristicValue, Logging, PlatformAccessory, Service } from 'homebridge';
+import type { CharacteristicValue, Logging, PlatformAccessory, Service, WithUUID } from 'homebridge';
 
 import type { EOMiniPlatform } from './platform.js';
+import type { EOMiniAccount } from './account.js';
+import type { VehicleAccessory, VehicleState } from './vehicleAccessory.js';
+import type { DeviceHealth } from './store.js';
 
 import PQueue from 'p-queue';
 
-import { ResponseMini, ResponseSession } from './api.js';
+import { CommandError, ResponseMini, ResponseSession } from './api.js';
+import { EveHistory } from './history.js';
+import { ChargeScheduler, ScheduleContext } from './scheduler.js';
+import { ChargeTargets, TargetContext } from './targets.js';
+import { CtPowerSource, PowerSource, SolarContext, SolarController } from './solar.js';
+import { JournalContext } from './journal.js';
+import { ChargePlanner, priceAt, TariffContext } from './tariff.js';
+import { AutoLock, AutoLockContext } from './autoLock.js';
+import { ChargeMonitor, createNotification, HomeKitNotifier, NOTIFICATION_EVENTS } from './notifier.js';
+import type { NotificationContext, Notifier } from './notifier.js';
+import type { SensorServiceType, ServiceLayout } from './settings.js';
+
+/**
+ * Energy counters persisted in `accessory.context.energy`
+ */
+interface EnergyContext {
+  totalKWh: number;
+  sessionId: number | null;
+  sessionKWh: number;
+  sampledAt: number;
+}
+
+/**
+ * HomeKit states of a charger
+ */
+interface ChargerStates {
+  LockCurrentState: number;
+  LockTargetState: number;
+  On: boolean;
+  ContactSensorState: number;
+}
+
+/**
+ * Last known state persisted in `accessory.context.snapshot`, restored as stale on restart
+ */
+interface SnapshotContext {
+  session: ResponseSession | null;
+  sessionAlive: boolean;
+  states: ChargerStates;
+  /**
+   * Poll the state comes from
+   */
+  updatedAt: string;
+  savedAt: string;
+}
+
+/**
+ * Command held during a cloud outage, replayed once the cloud is back
+ */
+interface QueuedCommand {
+  command: ChargerCommand;
+  timeout: NodeJS.Timeout;
+  resolve: () => void;
+  reject: (err: CommandError) => void;
+}
+
+/**
+ * Time allowed to the polled state to reflect a command
+ */
+const CONFIRM_TIMEOUT = 30 * 1000;
+
+/**
+ * Default lifetime of a command queued during a cloud outage
+ */
+const COMMAND_EXPIRY = 30 * 60 * 1000;
+
+/**
+ * Service types without subtype, all sharing the `(displayName?, subtype?)` constructor
+ */
+type PrimaryServiceType = typeof Service.Outlet;
+
+/**
+ * Normalized charger state, shared with the integrations (local API, webhooks, ...)
+ */
+export interface ChargerState {
+  address: string;
+  locked: boolean;
+  pluggedIn: boolean;
+  charging: boolean;
+  paused: boolean;
+  session: {
+    id: number;
+    kwh: number;
+    cost: number;
+    chargingTime: number;
+  } | null;
+  vehicle: VehicleState | null;
+  online: boolean;
+  fault: boolean;
+  /**
+   * Restored after a restart, not polled yet
+   */
+  stale: boolean;
+  updatedAt: string;
+}
+
+export type ChargerEvent = 'plugged_in' | 'charging_started' | 'paused' | 'session_ended';
+
+export type ChargerCommand = 'enable' | 'disable' | 'pause' | 'unpause';
+
+/**
+ * Settings adjustable from the integrations
+ */
+export interface ChargerSettings {
+  startSoc?: number;
+  /**
+   * Somebody is home (auto-lock presence)
+   */
+  home?: boolean;
+}
 
 /**
  * Platform Accessory
@@ -12,33 +124,77 @@ import { ResponseMini, ResponseSession } from './api.js';
  * Each accessory may expose multiple services of different service types.
  */
 export class ChargerAccessory {
-  private lockService: Service;
-  private outletService: Service;
-  private contactSensorService: Service;
+  private layout: Required<Pick<ServiceLayout, 'lock' | 'control' | 'plugged' | 'charging'>> & ServiceLayout;
+
+  private lockService: Service | undefined;
+  private outletService: Service | undefined;
+  private contactSensorService: Service | undefined;
+  private chargingSensorService: Service | undefined;
+  private healthService: Service | undefined;
+  private scheduleService: Service | undefined;
+  private boostService: Service | undefined;
+  private targetService: Service | undefined;
+  private solarService: Service | undefined;
+  private tariffService: Service | undefined;
+  private homeService: Service | undefined;
+
+  private history: EveHistory;
+  private scheduler: ChargeScheduler;
+  private targets: ChargeTargets;
+  private solar: SolarController;
+  private solarSource: PowerSource | undefined;
+  private planner: ChargePlanner;
+  private autoLock: AutoLock;
+  private monitor: ChargeMonitor;
+  private notifiers: Notifier[];
 
   private log: Logging;
 
   private device: ResponseMini;
   private session: ResponseSession | null = null;
   private sessionAlive: boolean = false;
+  private faults = {
+    cloud: false,
+    health: false,
+    stale: false,
+    outage: false,
+  };
   private lastUpdated: Date;
+  private lastState: ChargerState | undefined = undefined;
+
+  /**
+   * Roles with a command waiting for confirmation, their optimistic state is not overwritten by the polls
+   */
+  private pending: Set<'lock' | 'outlet'> = new Set();
+
+  /**
+   * Commands queued during a cloud outage, the latest per role
+   */
+  private queued: Map<'lock' | 'outlet', QueuedCommand> = new Map();
 
   private queue: PQueue;
 
-  private states: {
-    LockCurrentState: number;
-    LockTargetState: number;
-    On: boolean;
-    ContactSensorState: number;
+  private states: ChargerStates;
+
+  private energy: {
+    Consumption: number;
+    TotalConsumption: number;
+    Voltage: number;
+    ElectricCurrent: number;
   };
 
-  constructor(private readonly platform: EOMiniPlatform, private readonly accessory: PlatformAccessory) {
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly account: EOMiniAccount,
+    private readonly accessory: PlatformAccessory,
+    private readonly vehicleAccessory?: VehicleAccessory,
+  ) {
     this.log = this.platform.log;
 
     this.device = this.accessory.context.device;
     this.lastUpdated = new Date();
 
-    this.queue = this.platform.queue;
+    this.queue = this.account.queue;
 
     this.states = {
       LockCurrentState: this.platform.Characteristic.LockCurrentState.UNSECURED,
@@ -47,61 +203,513 @@ export class ChargerAccessory {
       ContactSensorState: this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
     };
 
+    // * Last known state until the first poll, flagged as stale
+    const snapshot: SnapshotContext | undefined = this.accessory.context.snapshot;
+
+    if (snapshot) {
+      this.log.info(this.device.address, 'Restored state polled at', snapshot.updatedAt, '(stale until the next poll)');
+
+      this.states = { ...this.states, ...snapshot.states };
+      this.session = snapshot.session;
+      this.sessionAlive = snapshot.sessionAlive;
+      this.lastUpdated = new Date(snapshot.updatedAt);
+      this.faults.stale = true;
+    }
+
+    this.accessory.context.energy = this.accessory.context.energy || {
+      totalKWh: 0,
+      sessionId: null,
+      sessionKWh: 0,
+      sampledAt: Date.now(),
+    };
+
+    this.energy = {
+      Consumption: 0,
+      TotalConsumption: this.energyContext.totalKWh,
+      Voltage: this.device.voltage || 0,
+      ElectricCurrent: 0,
+    };
+
     // set accessory information
     this.accessory
       .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Name, this.accessory.displayName)
       .setCharacteristic(this.platform.Characteristic.Manufacturer, 'EO')
       .setCharacteristic(this.platform.Characteristic.Model, this.device.chargerModel + '')
       .setCharacteristic(this.platform.Characteristic.SerialNumber, this.device.chargerAddress + '');
 
-    this.lockService =
-      this.accessory.getService(this.platform.Service.LockMechanism) ||
-      this.accessory.addService(this.platform.Service.LockMechanism);
+    // * Services layout, per device settings override the platform ones
+    const deviceConfig = this.platform.deviceConfig(this.device.address);
+
+    this.layout = {
+      lock: true,
+      control: 'outlet',
+      plugged: 'contact',
+      charging: 'none',
+      ...this.platform.config.layout,
+      ...deviceConfig?.layout,
+    };
+
+    const { Service: Services } = this.platform;
+
+    this.lockService = this.primaryService(
+      [Services.LockMechanism],
+      this.layout.lock ? Services.LockMechanism : undefined,
+      this.layout.lockName,
+    );
 
     this.lockService
-      .getCharacteristic(this.platform.Characteristic.LockCurrentState)
+      ?.getCharacteristic(this.platform.Characteristic.LockCurrentState)
       .onGet(this.getLockCurrentState.bind(this));
 
     this.lockService
-      .getCharacteristic(this.platform.Characteristic.LockTargetState)
+      ?.getCharacteristic(this.platform.Characteristic.LockTargetState)
       .onGet(this.getLockTargetState.bind(this))
       .onSet(this.setLockTargetState.bind(this));
 
-    this.outletService =
-      this.accessory.getService(this.platform.Service.Outlet) ||
-      this.accessory.addService(this.platform.Service.Outlet);
+    this.outletService = this.primaryService(
+      [Services.Outlet, Services.Switch],
+      { outlet: Services.Outlet, switch: Services.Switch, none: undefined }[this.layout.control],
+      this.layout.controlName,
+    );
 
     this.outletService
-      .getCharacteristic(this.platform.Characteristic.On)
+      ?.getCharacteristic(this.platform.Characteristic.On)
       .onGet(this.getOutletOn.bind(this))
       .onSet(this.setOutletOn.bind(this));
 
-    this.contactSensorService =
-      this.accessory.getService(this.platform.Service.ContactSensor) ||
-      this.accessory.addService(this.platform.Service.ContactSensor);
+    // * Eve energy characteristics on the outlet
+    for (const key of Object.keys(this.energy) as (keyof typeof this.energy)[]) {
+      if (!this.outletService) {
+        break;
+      }
 
-    this.contactSensorService
-      .getCharacteristic(this.platform.Characteristic.ContactSensorState)
-      .onGet(this.getContactSensorState.bind(this));
+      this.outletService.addOptionalCharacteristic(this.platform.eve.Characteristics[key]);
+      this.outletService
+        .getCharacteristic(this.platform.eve.Characteristics[key])
+        .onGet(() => this.energy[key])
+        .updateValue(this.energy[key]);
+    }
 
-    this.checkSession();
+    this.history = new EveHistory(
+      this.platform,
+      this.accessory,
+      this.device.address,
+      () => this.energyContext.totalKWh,
+      this.resetTotalConsumption.bind(this),
+    );
+
+    this.contactSensorService = this.primaryService(
+      [Services.ContactSensor, Services.OccupancySensor],
+      this.sensorType(this.layout.plugged),
+      this.layout.pluggedName,
+    );
+
+    this.sensorCharacteristic(this.contactSensorService)?.onGet(() =>
+      this.sensorValue(this.layout.plugged, this.states.ContactSensorState === this.contactDetected),
+    );
+
+    // * Optional sensor for "charging" (separate from "plugged")
+    const chargingName = this.layout.chargingName || `${this.device.address} Charging`;
+
+    const chargingContact = this.optionalService(
+      Services.ContactSensor,
+      'charging',
+      chargingName,
+      this.layout.charging === 'contact',
+    );
+    const chargingOccupancy = this.optionalService(
+      Services.OccupancySensor,
+      'charging',
+      chargingName,
+      this.layout.charging === 'occupancy',
+    );
+
+    this.chargingSensorService = chargingContact || chargingOccupancy;
+
+    this.sensorCharacteristic(this.chargingSensorService)?.onGet(() =>
+      this.sensorValue(this.layout.charging, this.states.On),
+    );
+
+    // * Optional sensor for charger connectivity (open when offline)
+    this.healthService = this.optionalService(
+      this.platform.Service.ContactSensor,
+      'health',
+      `${this.device.address} Connectivity`,
+      !!this.platform.config.healthSensor,
+    );
+
+    // * Charging schedule with its enable and boost switches, per device settings override the platform ones
+    const schedule = deviceConfig?.schedule || this.platform.config.schedule;
+
+    this.accessory.context.schedule = this.accessory.context.schedule || {
+      enabled: schedule?.enabled ?? true,
+      boost: false,
+    };
 
-    setInterval(() => {
-      if (this.queue.size + this.queue.pending > 0) {
-        this.log.debug(this.device.address, 'Skipping update (queue is not empty)');
-        return;
+    this.scheduler = new ChargeScheduler(
+      this.device.address,
+      this.log,
+      schedule?.windows || [],
+      this.accessory.context.schedule as ScheduleContext,
+    );
+
+    this.scheduleService = this.optionalService(
+      this.platform.Service.Switch,
+      'schedule',
+      `${this.device.address} Schedule`,
+      this.scheduler.configured,
+    );
+
+    this.scheduleService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.scheduler.enabled)
+      .onSet((value: CharacteristicValue) => {
+        this.scheduler.enabled = value as boolean;
+        this.applySchedule();
+      });
+
+    this.boostService = this.optionalService(
+      this.platform.Service.Switch,
+      'boost',
+      `${this.device.address} Boost`,
+      this.scheduler.configured,
+    );
+
+    this.boostService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.scheduler.boost)
+      .onSet(this.setBoost.bind(this));
+
+    // * Session targets, the percent of battery to add is adjustable from HomeKit as a brightness
+    const targetConfig = this.platform.config.target || {};
+
+    this.accessory.context.target = this.accessory.context.target || {
+      kwh: targetConfig.kwh,
+      percent: targetConfig.percent,
+      cost: targetConfig.cost,
+    };
+
+    this.targets = new ChargeTargets(
+      this.device.address,
+      this.log,
+      targetConfig,
+      this.accessory.context.target as TargetContext,
+    );
+
+    this.targetService = this.optionalService(
+      this.platform.Service.Lightbulb,
+      'target',
+      `${this.device.address} Charge Target`,
+      !!this.platform.config.target && targetConfig.homekit !== false,
+    );
+
+    this.targetService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => !!this.targets.percent)
+      .onSet(this.setTargetOn.bind(this));
+
+    this.targetService
+      ?.getCharacteristic(this.platform.Characteristic.Brightness)
+      .onGet(() => this.targets.percent || 0)
+      .onSet(this.setTargetPercent.bind(this));
+
+    // * Solar surplus mode
+    const solarConfig = this.platform.config.solar || {};
+
+    this.accessory.context.solar = this.accessory.context.solar || {
+      enabled: !!solarConfig.enabled,
+    };
+
+    this.solar = new SolarController(
+      this.device.address,
+      this.log,
+      solarConfig,
+      this.accessory.context.solar as SolarContext,
+    );
+
+    this.solarSource =
+      solarConfig.source === 'ct'
+        ? new CtPowerSource(() => this.device, solarConfig.invert)
+        : this.platform.solarSource;
+
+    this.solarService = this.optionalService(
+      this.platform.Service.Switch,
+      'solar',
+      `${this.device.address} Solar`,
+      !!this.solarSource,
+    );
+
+    this.solarService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.solar.enabled)
+      .onSet((value: CharacteristicValue) => {
+        this.solar.enabled = value as boolean;
+      });
+
+    // * Cheapest hours from the tariff prices
+    const tariffConfig = this.platform.config.tariff || {};
+
+    this.accessory.context.tariff = this.accessory.context.tariff || {
+      enabled: !!tariffConfig.enabled,
+    };
+
+    this.planner = new ChargePlanner(
+      this.device.address,
+      this.log,
+      tariffConfig,
+      this.accessory.context.tariff as TariffContext,
+    );
+
+    this.tariffService = this.optionalService(
+      this.platform.Service.Switch,
+      'tariff',
+      `${this.device.address} Cheapest Hours`,
+      !!this.platform.tariffSource && tariffConfig.homekit !== false,
+    );
+
+    this.tariffService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.planner.enabled)
+      .onSet((value: CharacteristicValue) => {
+        this.planner.enabled = value as boolean;
+      });
+
+    // * Auto-lock after unplug and/or when nobody is home, presence from HomeKit or the local API
+    const autoLockConfig = this.platform.config.autoLock || {};
+
+    this.accessory.context.autoLock = this.accessory.context.autoLock || { home: true };
+
+    this.autoLock = new AutoLock(
+      this.device.address,
+      this.log,
+      autoLockConfig,
+      this.accessory.context.autoLock as AutoLockContext,
+    );
+
+    this.homeService = this.optionalService(
+      this.platform.Service.Switch,
+      'home',
+      `${this.device.address} Somebody Home`,
+      !!autoLockConfig.away && autoLockConfig.homekit !== false,
+    );
+
+    this.homeService
+      ?.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.autoLock.home)
+      .onSet((value: CharacteristicValue) => {
+        this.autoLock.home = value as boolean;
+        this.applyAutoLock();
+      });
+
+    // * Charging milestones, once per session, as HomeKit switch events and HTTP notifications
+    const notificationsConfig = this.platform.config.notifications || {};
+
+    this.accessory.context.notifications = this.accessory.context.notifications || { notified: [] };
+
+    this.monitor = new ChargeMonitor(notificationsConfig, this.accessory.context.notifications as NotificationContext);
+
+    this.notifiers = [
+      new HomeKitNotifier(
+        this.platform,
+        this.accessory,
+        this.device.address,
+        notificationsConfig.homekit ? notificationsConfig.events || NOTIFICATION_EVENTS : [],
+      ),
+      ...this.platform.notifiers,
+    ];
+
+    // * Report cloud/charger failures and restored state instead of flipping the state
+    for (const service of this.mainServices) {
+      service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+      service
+        .getCharacteristic(this.platform.Characteristic.StatusFault)
+        .updateValue(
+          this.faults.stale
+            ? this.platform.Characteristic.StatusFault.GENERAL_FAULT
+            : this.platform.Characteristic.StatusFault.NO_FAULT,
+        );
+    }
+
+    this.pushStates();
+
+    this.subscribe();
+  }
+
+  /**
+   * Stop the timers on shutdown
+   */
+  stop() {
+    this.history.stop();
+  }
+
+  /**
+   * Follow the state store changes of this charger
+   */
+  subscribe() {
+    const { store } = this.account;
+    const address = this.device.address;
+
+    store.on('device', (changed, device) => {
+      if (changed === address) {
+        this.device = device;
       }
-      if (this.accessory.context.lastUpdated <= this.lastUpdated) {
+    });
+
+    store.on('health', (changed) => {
+      if (changed === address) {
+        this.updateHealth();
+      }
+    });
+
+    // * The session endpoints are per account, only keep the session of this charger
+    store.on('session', (session, sessionAlive, owner) => {
+      this.session = owner === address ? session : null;
+      this.sessionAlive = owner === address && sessionAlive;
+    });
+
+    store.on('sessionError', (err) => {
+      this.log.warn(this.device.address, 'Failed to check session:', err.message);
+      this.setFault('cloud', true);
+    });
+
+    store.on('sessionRecovered', () => {
+      this.setFault('cloud', false);
+    });
+
+    // * Keep serving the last known state, flagged as faulted, until the cloud is back
+    store.on('outage', (active) => {
+      this.setFault('outage', active);
+      this.updateHealth();
+      this.publishStatus();
+
+      if (!active) {
+        this.replayCommands();
+      }
+    });
+
+    store.on('cycle', (updatedAt) => {
+      this.lastUpdated = updatedAt;
+
+      // ! Session data is stale while the charger or the cloud is offline, keep the last known state
+      if (this.faults.health || this.faults.cloud || this.faults.outage) {
+        this.publishStatus();
         return;
       }
 
-      this.log.debug(this.device.address, 'Checking for updates', this.accessory.context.lastUpdated, this.lastUpdated);
+      // * First successful poll, the store may not have emitted a session equal to its initial state
+      if (this.faults.stale) {
+        this.session = store.sessionOwner === address ? store.session : null;
+        this.sessionAlive = store.sessionOwner === address && store.sessionAlive;
+
+        this.setFault('stale', false);
+      }
+
+      this.computeAll();
+    });
+  }
+
+  /**
+   * Get, add or remove an optional service identified by its subtype
+   * @param type Service type
+   * @param subtype Service subtype
+   * @param name Service name
+   * @param enabled Whether the service should be exposed
+   * @returns Service (if enabled)
+   */
+  optionalService(type: WithUUID<typeof Service>, subtype: string, name: string, enabled: boolean) {
+    const service = this.accessory.getServiceById(type, subtype);
+
+    if (!enabled) {
+      if (service) {
+        this.accessory.removeService(service);
+      }
 
-      this.device = this.accessory.context.device;
-      this.lastUpdated = new Date();
+      return undefined;
+    }
 
-      this.checkSession();
-    }, 1000);
+    return service || this.accessory.addService(type, name, subtype);
+  }
+
+  /**
+   * Get, add or remove the primary (without subtype) service of a role
+   * Cached services of the role with another type are removed
+   * @param types Service types that can hold the role
+   * @param type Service type to expose, if any
+   * @param name Service name
+   * @returns Service (if any)
+   */
+  primaryService(types: PrimaryServiceType[], type: PrimaryServiceType | undefined, name?: string) {
+    let service: Service | undefined = undefined;
+
+    for (const candidate of types) {
+      const cached = this.accessory.services.find((s) => s.UUID === candidate.UUID && !s.subtype);
+
+      if (!cached) {
+        continue;
+      }
+
+      if (candidate === type) {
+        service = cached;
+      } else {
+        this.log.info(this.device.address, 'Removing service', cached.displayName);
+        this.accessory.removeService(cached);
+      }
+    }
+
+    if (!type) {
+      return undefined;
+    }
+
+    service = service || this.accessory.addService(type, name);
+
+    if (name) {
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+    }
+
+    return service;
+  }
+
+  /**
+   * Services reporting the StatusFault
+   */
+  private get mainServices() {
+    return [this.lockService, this.outletService, this.contactSensorService].filter((service) => !!service);
+  }
+
+  private get contactDetected() {
+    return this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+  }
+
+  private sensorType(type: SensorServiceType) {
+    const { ContactSensor, OccupancySensor } = this.platform.Service;
+
+    return { contact: ContactSensor, occupancy: OccupancySensor, none: undefined }[type];
+  }
+
+  private sensorCharacteristic(service: Service | undefined) {
+    if (!service) {
+      return undefined;
+    }
+
+    return service.UUID === this.platform.Service.OccupancySensor.UUID
+      ? service.getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+      : service.getCharacteristic(this.platform.Characteristic.ContactSensorState);
+  }
+
+  /**
+   * Characteristic value of a sensor
+   * @param type Sensor type
+   * @param active Plugged/charging
+   */
+  private sensorValue(type: SensorServiceType, active: boolean) {
+    const { ContactSensorState, OccupancyDetected } = this.platform.Characteristic;
+
+    if (type === 'occupancy') {
+      return active ? OccupancyDetected.OCCUPANCY_DETECTED : OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+    }
+
+    return active ? ContactSensorState.CONTACT_DETECTED : ContactSensorState.CONTACT_NOT_DETECTED;
   }
 
   printStateInfo<
@@ -141,35 +749,706 @@ export class ChargerAccessory {
 
     switch (service) {
       case 'lock':
-        this.lockService.updateCharacteristic(this.platform.Characteristic[state], value);
+        this.lockService?.updateCharacteristic(this.platform.Characteristic[state], value);
         break;
       case 'outlet':
-        this.outletService.updateCharacteristic(this.platform.Characteristic[state], value);
+        this.outletService?.updateCharacteristic(this.platform.Characteristic[state], value);
+        this.sensorCharacteristic(this.chargingSensorService)?.updateValue(
+          this.sensorValue(this.layout.charging, value as boolean),
+        );
         break;
       case 'contactSensor':
-        this.contactSensorService.updateCharacteristic(this.platform.Characteristic[state], value);
+        this.sensorCharacteristic(this.contactSensorService)?.updateValue(
+          this.sensorValue(this.layout.plugged, value === this.contactDetected),
+        );
         break;
     }
   }
 
-  checkSession() {
-    this.log.debug(this.device.address, 'Check session');
+  /**
+   * Apply the healthcheck result from the state store
+   * @returns Whether the charger is online
+   */
+  updateHealth() {
+    const health: DeviceHealth | undefined = this.account.store.health.get(this.device.address);
+    const online = health?.online ?? true;
 
-    this.queue.add(async () => {
-      this.session = await this.platform.client.session();
-      this.sessionAlive = await this.platform.client.sessionAlive();
+    if (online && this.faults.health) {
+      this.log.info(this.device.address, 'Recovered, checking session');
+    }
 
-      this.computeAll();
-    });
+    this.setFault('health', !online);
+
+    this.healthService?.updateCharacteristic(
+      this.platform.Characteristic.ContactSensorState,
+      online && !this.faults.outage
+        ? this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED
+        : this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED,
+    );
+
+    return online;
+  }
+
+  setFault(kind: keyof typeof this.faults, fault: boolean) {
+    if (fault === this.faults[kind]) {
+      return;
+    }
+
+    const before = Object.values(this.faults).some(Boolean);
+
+    this.faults[kind] = fault;
+
+    const after = Object.values(this.faults).some(Boolean);
+
+    if (before === after) {
+      return;
+    }
+
+    this.log.info(this.device.address, 'StatusFault', before, '->', after, `(${kind})`);
+
+    const value = after
+      ? this.platform.Characteristic.StatusFault.GENERAL_FAULT
+      : this.platform.Characteristic.StatusFault.NO_FAULT;
+
+    for (const service of this.mainServices) {
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, value);
+    }
   }
 
   computeAll() {
     this.log.debug(this.device.address, 'Computing all');
 
-    this.updateState('lock', 'LockCurrentState', this.computeLockCurrentState());
-    this.updateState('lock', 'LockTargetState', this.computeLockCurrentState(), true);
-    this.updateState('outlet', 'On', this.computeOutletOn());
+    if (!this.pending.has('lock')) {
+      this.updateState('lock', 'LockCurrentState', this.computeLockCurrentState());
+      this.updateState('lock', 'LockTargetState', this.computeLockCurrentState(), true);
+    }
+    if (!this.pending.has('outlet')) {
+      this.updateState('outlet', 'On', this.computeOutletOn());
+    }
     this.updateState('contactSensor', 'ContactSensorState', this.computeContactSensorState());
+
+    this.computeEnergy();
+    this.applyTargets();
+    this.applySchedule();
+    this.applySolar();
+    this.applyTariff();
+    this.applyAutoLock();
+
+    this.vehicleAccessory?.update(this.sessionAlive ? this.session : null, this.account.vehicle);
+
+    this.recordSession();
+    this.emitTransitions();
+    this.notifyMilestones();
+
+    this.platform.mqtt?.update(this.state, this.device, this.sessionAlive ? this.session : null);
+
+    this.publishStatus();
+    this.saveSnapshot();
+  }
+
+  /**
+   * Persist the last known state, the accessories cache is only written when it changed
+   */
+  saveSnapshot() {
+    const previous: SnapshotContext | undefined = this.accessory.context.snapshot;
+    const snapshot: SnapshotContext = {
+      session: this.session,
+      sessionAlive: this.sessionAlive,
+      states: { ...this.states },
+      updatedAt: this.lastUpdated.toISOString(),
+      savedAt: new Date().toISOString(),
+    };
+
+    this.accessory.context.snapshot = snapshot;
+
+    const key = ({ session, sessionAlive, states }: SnapshotContext) => JSON.stringify([session, sessionAlive, states]);
+
+    if (!previous || key(previous) !== key(snapshot)) {
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
+
+  /**
+   * Push the current states to HomeKit
+   */
+  pushStates() {
+    const { Characteristic } = this.platform;
+
+    this.lockService?.updateCharacteristic(Characteristic.LockCurrentState, this.states.LockCurrentState);
+    this.lockService?.updateCharacteristic(Characteristic.LockTargetState, this.states.LockTargetState);
+    this.outletService?.updateCharacteristic(Characteristic.On, this.states.On);
+    this.sensorCharacteristic(this.chargingSensorService)?.updateValue(
+      this.sensorValue(this.layout.charging, this.states.On),
+    );
+    this.sensorCharacteristic(this.contactSensorService)?.updateValue(
+      this.sensorValue(this.layout.plugged, this.states.ContactSensorState === this.contactDetected),
+    );
+  }
+
+  /**
+   * Share the state with the Homebridge UI dashboard
+   */
+  publishStatus() {
+    this.platform.status?.update({
+      ...this.state,
+      name: this.accessory.displayName,
+      currency: this.account.user?.currency.code || null,
+      health: this.account.store.health.get(this.device.address) || null,
+    });
+  }
+
+  private get journalContext(): JournalContext {
+    return (this.accessory.context.journal = this.accessory.context.journal || { session: null, seenAt: Date.now() });
+  }
+
+  /**
+   * Journal the previous session once it has ended (new `USID` or cable removed)
+   */
+  recordSession() {
+    const previous = this.journalContext;
+    const current = this.sessionAlive ? this.session : null;
+
+    if (previous.session?.USID === current?.USID) {
+      this.meterCost(previous, current);
+
+      previous.session = current;
+      return;
+    }
+
+    if (previous.session) {
+      this.platform.journal?.record(
+        this.device.address,
+        previous,
+        this.account.vehicle && `${this.account.vehicle.Manufacturer} ${this.account.vehicle.Model}`,
+        this.account.user?.currency.code || null,
+        this.device.timezone,
+      );
+    }
+
+    // ? Energy delivered before the session was first seen has no known price
+    const cost = this.platform.tariffSource ? (current && current.ESKWH > 0 ? null : 0) : undefined;
+
+    this.accessory.context.journal = { session: current, seenAt: Date.now(), cost };
+  }
+
+  /**
+   * Add the energy delivered since the last poll at the current tariff price
+   */
+  private meterCost(context: JournalContext, current: ResponseSession | null) {
+    const source = this.platform.tariffSource;
+
+    if (!source || !current || typeof context.cost !== 'number') {
+      return;
+    }
+
+    const delta = current.ESKWH - (context.session?.ESKWH || 0);
+
+    if (delta <= 0) {
+      return;
+    }
+
+    const price = priceAt(source, Date.now(), this.device.timezone);
+
+    // ! A price gap makes the whole session cost unknown, EO cost is used instead
+    context.cost = price === undefined ? null : context.cost + delta * price;
+  }
+
+  /**
+   * Normalized state of the charger
+   */
+  get state(): ChargerState {
+    const session = this.sessionAlive ? this.session : null;
+
+    return {
+      address: this.device.address,
+      locked: this.states.LockCurrentState === this.platform.Characteristic.LockCurrentState.SECURED,
+      pluggedIn: this.sessionAlive,
+      charging: !!session && !session.IsPaused,
+      paused: !!session && session.IsPaused,
+      session: session && {
+        id: session.USID,
+        kwh: session.ESKWH,
+        cost: session.ESCost,
+        chargingTime: session.ChargingTime,
+      },
+      vehicle: this.vehicleAccessory?.state || null,
+      online: !this.faults.health,
+      fault: this.faults.cloud || this.faults.health || this.faults.outage,
+      stale: this.faults.stale,
+      updatedAt: this.lastUpdated.toISOString(),
+    };
+  }
+
+  /**
+   * Notify the state transitions since the previous computation
+   */
+  emitTransitions() {
+    const previous = this.lastState;
+    const current = this.state;
+
+    this.lastState = current;
+
+    if (!previous) {
+      return;
+    }
+
+    const events: ChargerEvent[] = [];
+
+    if (!previous.pluggedIn && current.pluggedIn) {
+      events.push('plugged_in');
+    }
+    if (!previous.charging && current.charging) {
+      events.push('charging_started');
+    }
+    if (!previous.paused && current.paused) {
+      events.push('paused');
+    }
+    if (previous.pluggedIn && !current.pluggedIn) {
+      events.push('session_ended');
+    }
+
+    for (const event of events) {
+      this.log.debug(this.device.address, 'Event', event);
+
+      this.platform.localApi?.notify(event, current);
+    }
+  }
+
+  /**
+   * Notify the charging milestones of the current session
+   */
+  notifyMilestones() {
+    const session = this.sessionAlive ? this.session : null;
+
+    for (const event of this.monitor.evaluate(this.sessionAlive, session)) {
+      const notification = createNotification(event, this.device.address, session);
+
+      this.log.info(this.device.address, 'Notify', event);
+
+      for (const notifier of this.notifiers) {
+        notifier.notify(notification);
+      }
+    }
+  }
+
+  /**
+   * Apply settings from the integrations
+   * @param settings Settings
+   */
+  applySettings(settings: ChargerSettings) {
+    if (settings.startSoc !== undefined) {
+      if (!this.vehicleAccessory) {
+        throw new Error('Vehicle accessory not enabled');
+      }
+      if (typeof settings.startSoc !== 'number' || isNaN(settings.startSoc)) {
+        throw new Error('Invalid startSoc');
+      }
+
+      this.vehicleAccessory.setStartSoc(settings.startSoc);
+    }
+
+    if (settings.home !== undefined) {
+      if (typeof settings.home !== 'boolean') {
+        throw new Error('Invalid home');
+      }
+
+      this.autoLock.home = settings.home;
+      this.homeService?.updateCharacteristic(this.platform.Characteristic.On, settings.home);
+      this.applyAutoLock();
+    }
+  }
+
+  /**
+   * Send a command and wait for its confirmation
+   * @param command Command
+   * @returns Whether the command was queued during a cloud outage rather than confirmed
+   */
+  async runCommand(command: ChargerCommand) {
+    const { confirmation, queued } = await this.sendCommand(command);
+
+    if (queued) {
+      // * Replayed once the cloud is back, the outcome is logged
+      confirmation.catch(() => {});
+      return true;
+    }
+
+    await confirmation;
+
+    return false;
+  }
+
+  /**
+   * Optimistic command: the expected state is shown right away, then confirmed by the following polls.
+   * On failure or timeout the characteristics are rolled back (the lock is `UNKNOWN` when the command
+   * could not be sent and `JAMMED` when the charger did not follow).
+   * During a cloud outage the command may be queued instead, until the cloud is back or it expires.
+   * @param command Command
+   * @returns Confirmation, rejected with a `CommandError` once rolled back
+   * @throws CommandError when the command is not allowed or could not be sent
+   */
+  async sendCommand(command: ChargerCommand): Promise<{ confirmation: Promise<void>; queued: boolean }> {
+    const { LockCurrentState } = this.platform.Characteristic;
+    const role = command === 'enable' || command === 'disable' ? 'lock' : 'outlet';
+    const offline = this.faults.health || this.faults.cloud || this.faults.outage;
+
+    if (offline && !(this.faults.outage && this.platform.config.outage?.queueCommands)) {
+      throw new CommandError(`Charger unreachable, cannot ${command}`, command, 'offline');
+    }
+    if (role === 'outlet' && !this.sessionAlive) {
+      throw new CommandError(`Session not alive, cannot ${command}`, command, 'not_allowed');
+    }
+    if (offline) {
+      return { confirmation: this.queueCommand(command, role), queued: true };
+    }
+
+    this.showTarget(command, role);
+
+    try {
+      await this.queue.add(() => {
+        switch (command) {
+          case 'enable':
+          case 'disable':
+            return this.doEnableOrDisable(command === 'enable' ? 'Enable' : 'Disable');
+          default:
+            return this.doPauseOrUnpause(command === 'pause' ? 'Pause' : 'Unpause');
+        }
+      });
+    } catch (err) {
+      this.log.error(this.device.address, 'Failed to', command, (err as Error).message);
+
+      this.pending.delete(role);
+      this.rollback(role, LockCurrentState.UNKNOWN);
+
+      throw new CommandError(`Failed to ${command}: ${(err as Error).message}`, command, 'failed', { cause: err });
+    }
+
+    return { confirmation: this.confirm(command, role), queued: false };
+  }
+
+  /**
+   * Optimistic state of a command
+   */
+  private showTarget(command: ChargerCommand, role: 'lock' | 'outlet') {
+    const { LockTargetState } = this.platform.Characteristic;
+
+    this.pending.add(role);
+
+    if (role === 'lock') {
+      const target = command === 'disable' ? LockTargetState.SECURED : LockTargetState.UNSECURED;
+
+      this.updateState('lock', 'LockTargetState', target);
+    } else {
+      this.updateState('outlet', 'On', command === 'unpause');
+    }
+  }
+
+  /**
+   * Hold a command until the cloud is back, a newer command of the same role supersedes it
+   * @returns Confirmation once replayed, rejected with a `CommandError` when expired
+   */
+  private queueCommand(command: ChargerCommand, role: 'lock' | 'outlet') {
+    const { LockCurrentState } = this.platform.Characteristic;
+    const expiry = (this.platform.config.outage?.commandExpiry || 0) * 60 * 1000 || COMMAND_EXPIRY;
+    const previous = this.queued.get(role);
+
+    if (previous) {
+      clearTimeout(previous.timeout);
+      previous.reject(new CommandError(`${previous.command} superseded by ${command}`, previous.command, 'expired'));
+    }
+
+    this.showTarget(command, role);
+
+    this.log.info(this.device.address, 'EO cloud unreachable, queued', command, 'for', expiry / 60000, 'min');
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.queued.delete(role);
+        this.pending.delete(role);
+
+        this.log.warn(this.device.address, 'Queued', command, 'expired, rolling back');
+
+        this.rollback(role, LockCurrentState.UNKNOWN);
+
+        reject(new CommandError(`${command} expired while the EO cloud was unreachable`, command, 'expired'));
+      }, expiry);
+
+      this.queued.set(role, { command, timeout, resolve, reject });
+    });
+  }
+
+  /**
+   * Send the commands queued during the outage
+   */
+  private replayCommands() {
+    for (const [role, { command, timeout, resolve, reject }] of this.queued) {
+      clearTimeout(timeout);
+
+      this.queued.delete(role);
+      this.pending.delete(role);
+
+      this.log.info(this.device.address, 'Replaying queued', command);
+
+      this.sendCommand(command)
+        .then(({ confirmation }) => confirmation)
+        .then(resolve, reject);
+    }
+  }
+
+  private async confirm(command: ChargerCommand, role: 'lock' | 'outlet') {
+    const { LockCurrentState } = this.platform.Characteristic;
+    const expectedLock = command === 'disable' ? LockCurrentState.SECURED : LockCurrentState.UNSECURED;
+    const isConfirmed = () =>
+      role === 'lock'
+        ? this.computeLockCurrentState() === expectedLock
+        : !!this.session && this.session.IsPaused === (command === 'pause');
+
+    const { store } = this.account;
+    let onCycle = () => {};
+    let timeout: NodeJS.Timeout | undefined = undefined;
+
+    const confirmed = await new Promise<boolean>((resolve) => {
+      onCycle = () => (isConfirmed() ? resolve(true) : this.account.requestUpdate());
+      timeout = setTimeout(() => resolve(false), CONFIRM_TIMEOUT);
+
+      store.on('cycle', onCycle);
+    });
+
+    clearTimeout(timeout);
+    store.off('cycle', onCycle);
+
+    this.pending.delete(role);
+
+    if (confirmed) {
+      this.log.info(this.device.address, 'Confirmed', command);
+
+      if (role === 'lock') {
+        this.updateState('lock', 'LockCurrentState', expectedLock);
+      }
+
+      return;
+    }
+
+    this.log.warn(this.device.address, command, 'not confirmed within', CONFIRM_TIMEOUT / 1000, 's, rolling back');
+
+    this.rollback(role, LockCurrentState.JAMMED);
+
+    throw new CommandError(`${command} not confirmed by the charger`, command, 'unconfirmed');
+  }
+
+  /**
+   * Restore the characteristics of a role to the last polled state
+   * @param role Role
+   * @param lockCurrentState Lock current state to report meanwhile
+   */
+  private rollback(role: 'lock' | 'outlet', lockCurrentState: number) {
+    if (role === 'lock') {
+      this.updateState('lock', 'LockTargetState', this.computeLockCurrentState());
+      this.updateState('lock', 'LockCurrentState', lockCurrentState);
+    } else {
+      this.updateState('outlet', 'On', this.computeOutletOn());
+    }
+  }
+
+  /**
+   * Send a command from a HomeKit set handler, failures are reported as HAP errors
+   * @param command Command
+   */
+  private async sendHomeKitCommand(command: ChargerCommand) {
+    const { HapStatusError, HAPStatus } = this.platform.api.hap;
+
+    try {
+      const { confirmation } = await this.sendCommand(command);
+
+      // * Rolled back on failure, nothing else to do
+      confirmation.catch(() => {});
+    } catch (err) {
+      if (err instanceof CommandError && err.reason === 'not_allowed') {
+        throw new HapStatusError(HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+      }
+
+      throw new HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    }
+  }
+
+  /**
+   * Pause the session when a target is reached
+   */
+  applyTargets() {
+    if (this.targets.percent && !this.account.vehicle?.BatteryKWH) {
+      this.log.debug(this.device.address, 'Percent target ignored, battery capacity unknown');
+    }
+
+    const session = this.session;
+    const reason = this.targets.evaluate(this.sessionAlive, session, this.account.vehicle?.BatteryKWH);
+
+    this.updateTargetService();
+
+    if (!reason || !session) {
+      return;
+    }
+
+    this.log.info(this.device.address, 'Target reached:', reason, this.account.user?.currency.code || '');
+
+    // ! Only once paused, a failed pause is retried on the next cycle
+    this.automate('Pause', 'Target').then((confirmed) => {
+      if (confirmed) {
+        this.targets.markReached(session);
+      }
+    });
+  }
+
+  updateTargetService() {
+    this.targetService?.updateCharacteristic(this.platform.Characteristic.On, !!this.targets.percent);
+    this.targetService?.updateCharacteristic(this.platform.Characteristic.Brightness, this.targets.percent || 0);
+  }
+
+  setTargetOn(value: CharacteristicValue) {
+    if (!!value === !!this.targets.percent) {
+      return;
+    }
+
+    this.targets.set('percent', value ? this.platform.config.target?.percent || 100 : undefined);
+  }
+
+  setTargetPercent(value: CharacteristicValue) {
+    this.targets.set('percent', value as number);
+  }
+
+  /**
+   * Pause/unpause the session when the schedule says so
+   */
+  applySchedule() {
+    const action = this.scheduler.evaluate(this.sessionAlive, this.session, this.device.timezone);
+
+    this.boostService?.updateCharacteristic(this.platform.Characteristic.On, this.scheduler.boost);
+
+    if (!action) {
+      return;
+    }
+
+    // ! Solar mode drives the session, unless boosting
+    if (this.solar.enabled && !this.scheduler.boost) {
+      this.log.debug(this.device.address, 'Schedule requires to', action, 'but solar mode is enabled');
+      return;
+    }
+
+    // ! Cheapest hours drive the session, unless boosting
+    if (this.platform.tariffSource && this.planner.enabled && !this.scheduler.boost) {
+      this.log.debug(this.device.address, 'Schedule requires to', action, 'but cheapest hours are enabled');
+      return;
+    }
+
+    this.automate(action, 'Schedule');
+  }
+
+  /**
+   * Disable the charger when an auto-lock rule applies
+   */
+  applyAutoLock() {
+    if (this.pending.has('lock')) {
+      return;
+    }
+
+    const disabled = this.computeLockCurrentState() === this.platform.Characteristic.LockCurrentState.SECURED;
+    const reason = this.autoLock.evaluate(this.sessionAlive, disabled, this.device.timezone);
+
+    if (!reason) {
+      return;
+    }
+
+    this.log.info(this.device.address, 'Auto-lock:', reason);
+
+    // ! Only once disabled, a failed lock is retried on the next cycle
+    this.sendCommand('disable')
+      .then(({ confirmation }) => confirmation)
+      .then(() => this.autoLock.markLocked())
+      .catch((err) => {
+        this.log.error(this.device.address, 'Failed to auto-lock', (err as Error).message);
+      });
+  }
+
+  /**
+   * Pause/unpause the session following the solar surplus
+   */
+  async applySolar() {
+    if (!this.solarSource || !this.solar.enabled || this.scheduler.boost) {
+      return;
+    }
+
+    const action = this.solar.evaluate(this.sessionAlive, this.session, await this.solarSource.read());
+
+    if (action) {
+      this.automate(action, 'Solar mode');
+    }
+  }
+
+  /**
+   * Pause/unpause the session following the cheapest hours plan
+   */
+  async applyTariff() {
+    const source = this.platform.tariffSource;
+
+    // ! Solar mode takes precedence
+    if (!source || !this.planner.enabled || this.scheduler.boost || this.solar.enabled) {
+      return;
+    }
+
+    await source.load();
+
+    const action = this.planner.evaluate(this.sessionAlive, this.session, source, this.device.timezone);
+
+    if (action) {
+      this.automate(action, 'Cheapest hours');
+    }
+  }
+
+  /**
+   * Pause/unpause the session on behalf of an automation (targets, schedule, solar mode, cheapest hours),
+   * through the command pipeline: gated by the faults, confirmed by the polls and rolled back on failure.
+   * @param action Action
+   * @param automation Automation name, for the logs
+   * @returns Whether the command was confirmed
+   */
+  private async automate(action: 'Pause' | 'Unpause', automation: string) {
+    // ! Do not resume a session stopped by a target
+    if (action === 'Unpause' && this.targets.isReached(this.session)) {
+      this.log.info(this.device.address, automation, 'requires to', action, 'but target already reached');
+      return false;
+    }
+
+    // ! Do not fight a command still waiting for its confirmation
+    if (this.pending.has('outlet')) {
+      this.log.info(this.device.address, automation, 'requires to', action, 'but a command is pending');
+      return false;
+    }
+
+    this.log.info(this.device.address, automation, 'requires to', action);
+
+    try {
+      const { confirmation } = await this.sendCommand(action === 'Pause' ? 'pause' : 'unpause');
+
+      await confirmation;
+
+      return true;
+    } catch (err) {
+      this.log.error(this.device.address, 'Failed to apply', automation, (err as Error).message);
+
+      return false;
+    }
+  }
+
+  setBoost(value: CharacteristicValue) {
+    if (value && !this.sessionAlive) {
+      this.log.warn(this.device.address, 'Cannot boost, session not alive');
+
+      setTimeout(() => {
+        this.boostService?.updateCharacteristic(this.platform.Characteristic.On, false);
+      }, 150);
+      return;
+    }
+
+    this.scheduler.boost = value as boolean;
+    this.applySchedule();
   }
 
   computeLockCurrentState() {
@@ -189,52 +1468,40 @@ export class ChargerAccessory {
   async doEnableOrDisable(action: 'Enable' | 'Disable') {
     this.log.info(this.device.address, 'Attempt to', action, this.device.address);
 
-    await this.platform.client[`mini${action}`](this.device.address);
+    await this.account.client[`mini${action}`](this.device.address);
 
     this.log.info(this.device.address, 'Complete to', action, this.device.address);
+
+    this.account.requestUpdate();
   }
 
   async setLockTargetState(value: CharacteristicValue) {
-    if (value === this.states.LockTargetState || value === this.states.LockCurrentState) {
+    if (value === this.states.LockTargetState && !this.pending.has('lock')) {
       this.log.debug(this.device.address, 'Ignoring setLockTargetState', value, this.states);
       return;
     }
 
-    this.updateState('lock', 'LockTargetState', value as number);
-
-    let promise: Promise<unknown> | null = null;
-
     switch (value) {
       case this.platform.Characteristic.LockTargetState.SECURED:
-        promise = this.doEnableOrDisable('Disable');
-        break;
+        return this.sendHomeKitCommand('disable');
       case this.platform.Characteristic.LockTargetState.UNSECURED:
-        promise = this.doEnableOrDisable('Enable');
-        break;
+        return this.sendHomeKitCommand('enable');
       default:
         this.log.error(this.device.address, 'Unknown LockTargetState', value);
-        return;
     }
-
-    this.queue.add(async () => {
-      try {
-        await promise;
-
-        this.updateState('lock', 'LockCurrentState', value as number);
-      } catch (err) {
-        this.log.error(this.device.address, 'Failed to enable/disable', err);
-
-        this.updateState('lock', 'LockCurrentState', this.platform.Characteristic.LockCurrentState.UNKNOWN);
-      }
-    });
   }
 
   async doPauseOrUnpause(action: 'Pause' | 'Unpause') {
     this.log.info(this.device.address, 'Attempt to', action, this.device.address);
 
-    await this.platform.client[`session${action}`]();
+    // * Not an unexpected stop
+    this.monitor.expect(action === 'Pause');
+
+    await this.account.client[`session${action}`]();
 
     this.log.info(this.device.address, 'Complete to', action, this.device.address);
+
+    this.account.requestUpdate();
   }
 
   computeOutletOn() {
@@ -249,53 +1516,13 @@ export class ChargerAccessory {
     return this.states.On;
   }
 
-  resettingOutletOff: boolean = false;
-  resetOutletOff() {}
-
-  setOutletOn(value: CharacteristicValue) {
-    if (!this.sessionAlive) {
-      if (this.resettingOutletOff) {
-        this.resettingOutletOff = false;
-        return;
-      }
-
-      this.log.warn(this.device.address, 'Session not alive', value, this.states);
-      this.resettingOutletOff = true;
-      setTimeout(() => {
-        this.updateState('outlet', 'On', false, true);
-        this.outletService.getCharacteristic(this.platform.Characteristic.On).setValue(false);
-      }, 150);
-      return;
-    }
-
-    if (value === this.states.On) {
+  async setOutletOn(value: CharacteristicValue) {
+    if (value === this.states.On && !this.pending.has('outlet')) {
       this.log.debug(this.device.address, 'Ignoring setOutletOn', value, this.states);
       return;
     }
 
-    this.updateState('outlet', 'On', value as boolean, false);
-
-    let promise: Promise<unknown> | null = null;
-
-    switch (value) {
-      case false:
-        promise = this.doPauseOrUnpause('Pause');
-        break;
-      case true:
-        promise = this.doPauseOrUnpause('Unpause');
-        break;
-      default:
-        this.log.error(this.device.address, 'Unknown On', value);
-        return;
-    }
-
-    this.queue.add(async () => {
-      try {
-        await promise;
-      } catch (err) {
-        this.log.error(this.device.address, 'Failed to pause/unpause', err);
-      }
-    });
+    return this.sendHomeKitCommand(value ? 'unpause' : 'pause');
   }
 
   computeContactSensorState() {
@@ -311,4 +1538,80 @@ export class ChargerAccessory {
   getContactSensorState() {
     return this.states.ContactSensorState;
   }
+
+  private get energyContext(): EnergyContext {
+    return this.accessory.context.energy;
+  }
+
+  updateEnergy<K extends keyof typeof this.energy>(key: K, value: number) {
+    if (value === this.energy[key]) {
+      return;
+    }
+
+    this.log.debug(this.device.address, key, this.energy[key], '->', value);
+
+    this.energy[key] = value;
+
+    this.outletService?.updateCharacteristic(this.platform.eve.Characteristics[key], value);
+  }
+
+  /**
+   * Derive power, current and total consumption from the session energy counter
+   * EO does not report power, so it is the energy delivered between two polls over the elapsed time
+   */
+  computeEnergy() {
+    const context = this.energyContext;
+    const now = Date.now();
+
+    if (!this.sessionAlive || !this.session) {
+      context.sessionId = null;
+      context.sessionKWh = 0;
+      context.sampledAt = now;
+
+      this.updateEnergy('Consumption', 0);
+      this.updateEnergy('ElectricCurrent', 0);
+      return;
+    }
+
+    // * New session, start counting from zero
+    if (context.sessionId !== this.session.USID) {
+      context.sessionId = this.session.USID;
+      context.sessionKWh = 0;
+      context.sampledAt = now;
+    }
+
+    const voltage = this.session.Voltage || this.device.voltage || 0;
+    const delta = Math.max(0, this.session.ESKWH - context.sessionKWh);
+
+    this.updateEnergy('Voltage', voltage);
+
+    if (this.session.IsPaused) {
+      context.sessionKWh = this.session.ESKWH;
+      context.sampledAt = now;
+
+      this.updateEnergy('Consumption', 0);
+      this.updateEnergy('ElectricCurrent', 0);
+    } else if (delta > 0) {
+      // ? When the counter did not move keep the last power, the EO cloud does not update it on every poll
+      const hours = (now - context.sampledAt) / 3600000;
+      const power = hours > 0 ? (delta * 1000) / hours : 0;
+
+      context.sessionKWh = this.session.ESKWH;
+      context.sampledAt = now;
+
+      this.updateEnergy('Consumption', Math.round(power * 10) / 10);
+      this.updateEnergy('ElectricCurrent', voltage > 0 ? Math.round((power / voltage) * 100) / 100 : 0);
+    }
+
+    context.totalKWh += delta;
+
+    this.updateEnergy('TotalConsumption', Math.round(context.totalKWh * 100) / 100);
+  }
+
+  resetTotalConsumption() {
+    this.energyContext.totalKWh = 0;
+
+    this.updateEnergy('TotalConsumption', 0);
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
 }
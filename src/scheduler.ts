@@ -0,0 +1,157 @@
+import type { Logging } from 'homebridge';
+
+import type { ResponseSession } from './api.js';
+import type { ScheduleWindow, Weekday } from './settings.js';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Scheduler state persisted in `accessory.context.schedule`
+ */
+export interface ScheduleContext {
+  enabled: boolean;
+  boost: boolean;
+}
+
+/**
+ * Weekday and minutes since midnight of a date in the given timezone
+ * Falls back to the system timezone when the timezone is unknown
+ * @param date Date
+ * @param timezone IANA timezone (e.g. `Europe/London`)
+ */
+export const localTime = (date: Date, timezone?: string): { day: number; minutes: number } => {
+  let parts: Intl.DateTimeFormatPart[];
+
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || undefined,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch (err) {
+    return localTime(date);
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday').toLowerCase().slice(0, 3) as Weekday),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+};
+
+/**
+ * Parse `HH:MM` into minutes since midnight
+ */
+export const parseTime = (value: string) => {
+  const [hours, minutes] = value.split(':').map((v) => parseInt(v, 10));
+
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Check if a date falls within any of the windows
+ * @param windows Windows
+ * @param date Date
+ * @param timezone IANA timezone
+ */
+export const isInWindow = (windows: ScheduleWindow[], date: Date, timezone?: string) => {
+  const { day, minutes } = localTime(date, timezone);
+  const previousDay = (day + 6) % 7;
+
+  return windows.some((window) => {
+    const days = window.days?.length ? window.days.map((d) => WEEKDAYS.indexOf(d)) : [0, 1, 2, 3, 4, 5, 6];
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+
+    if (start < end) {
+      return days.includes(day) && minutes >= start && minutes < end;
+    }
+
+    // * Window spans midnight, it belongs to the day it starts on
+    return (days.includes(day) && minutes >= start) || (days.includes(previousDay) && minutes < end);
+  });
+};
+
+/**
+ * Charge Scheduler
+ * Decides whether a connected car should be charging according to the configured windows.
+ * A decision is only returned when it changes, so a manual pause/unpause holds until the next window boundary.
+ */
+export class ChargeScheduler {
+  private lastDecision: 'Pause' | 'Unpause' | undefined = undefined;
+
+  constructor(
+    private readonly id: string,
+    private readonly log: Logging,
+    private readonly windows: ScheduleWindow[],
+    private readonly context: ScheduleContext,
+  ) {}
+
+  get configured() {
+    return this.windows.length > 0;
+  }
+
+  get enabled() {
+    return this.context.enabled;
+  }
+
+  set enabled(value: boolean) {
+    this.log.info(this.id, 'Schedule', value ? 'enabled' : 'disabled');
+
+    this.context.enabled = value;
+    this.lastDecision = undefined;
+  }
+
+  get boost() {
+    return this.context.boost;
+  }
+
+  set boost(value: boolean) {
+    this.log.info(this.id, 'Boost', value ? 'on' : 'off');
+
+    this.context.boost = value;
+    this.lastDecision = undefined;
+  }
+
+  /**
+   * Evaluate the schedule against the current session
+   * @param sessionAlive Cable connected
+   * @param session Current session
+   * @param timezone Charger timezone
+   * @returns Action to perform, if any
+   */
+  evaluate(sessionAlive: boolean, session: ResponseSession | null, timezone?: string, now = new Date()) {
+    // * Boost lasts until the cable is unplugged
+    if (!sessionAlive || !session) {
+      if (this.context.boost) {
+        this.boost = false;
+      }
+
+      this.lastDecision = undefined;
+      return undefined;
+    }
+
+    if (!this.configured || (!this.context.enabled && !this.context.boost)) {
+      this.lastDecision = undefined;
+      return undefined;
+    }
+
+    const decision = this.context.boost || isInWindow(this.windows, now, timezone) ? 'Unpause' : 'Pause';
+
+    if (decision === this.lastDecision) {
+      return undefined;
+    }
+
+    this.lastDecision = decision;
+
+    // * Already in the expected state
+    if ((decision === 'Pause') === session.IsPaused) {
+      return undefined;
+    }
+
+    return decision;
+  }
+}
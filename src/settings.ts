@@ -10,9 +10,229 @@ export const PLATFORM_NAME = 'HomebridgeEOMini';
  */
 export const PLUGIN_NAME = 'homebridge-eo-mini';
 
-export type SeamConfig = PlatformConfig & {
-  name: string;
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * Charging window, `start`/`end` as `HH:MM` in the charger timezone (`end` before `start` spans midnight)
+ */
+export interface ScheduleWindow {
+  days?: Weekday[];
+  start: string;
+  end: string;
+}
+
+export interface ScheduleConfig {
+  enabled?: boolean;
+  windows?: ScheduleWindow[];
+}
+
+/**
+ * Default session targets, `cost` is in the EO account currency
+ */
+export interface TargetConfig {
+  kwh?: number;
+  percent?: number;
+  cost?: number;
+  homekit?: boolean;
+}
+
+/**
+ * Solar surplus mode, the grid power comes from the EO CT clamps or a local MQTT/HTTP source
+ */
+export interface SolarConfig {
+  enabled?: boolean;
+  source?: 'ct' | 'mqtt' | 'http';
+  url?: string;
+  topic?: string;
+  path?: string;
+  invert?: boolean;
+  startExport?: number;
+  stopImport?: number;
+  minOn?: number;
+  minOff?: number;
+}
+
+/**
+ * Tariff time band, `price` per kWh
+ */
+export interface TariffBand extends ScheduleWindow {
+  price: number;
+}
+
+/**
+ * Time-of-use tariff: prices from static bands, a local JSON/CSV file or an HTTP endpoint (`path` to the prices
+ * array), `scale` converts them to the EO account currency. Cheapest hours charging plans `kwh` at `power` kW
+ * before `readyBy` (`HH:MM`).
+ */
+export interface TariffConfig {
+  enabled?: boolean;
+  source?: 'static' | 'file' | 'http';
+  price?: number;
+  bands?: TariffBand[];
+  file?: string;
+  url?: string;
+  path?: string;
+  scale?: number;
+  readyBy?: string;
+  kwh?: number;
+  power?: number;
+  homekit?: boolean;
+}
+
+export interface WebhookConfig {
+  url: string;
+  token?: string;
+  events?: ('plugged_in' | 'charging_started' | 'paused' | 'session_ended')[];
+}
+
+/**
+ * Local HTTP API (authenticated with `token`, local only unless `host` says otherwise) and webhooks
+ */
+export interface LocalApiConfig {
+  enabled?: boolean;
+  host?: string;
+  port?: number;
+  token?: string;
+  webhooks?: WebhookConfig[];
+}
+
+/**
+ * MQTT bridge, `discovery` publishes the Home Assistant discovery payloads
+ */
+export interface MqttConfig {
+  url?: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  prefix?: string;
+  discovery?: boolean;
+  discoveryPrefix?: string;
+}
+
+/**
+ * Poll intervals in seconds, `quietHours` slows down the polling when no car is charging
+ */
+export interface PollingConfig {
+  idle?: number;
+  connected?: number;
+  charging?: number;
+  quietHours?: {
+    start: string;
+    end: string;
+    interval?: number;
+  };
+}
+
+/**
+ * Vehicle accessory, `batteryKWh`/`range` override the EO account vehicle
+ */
+export interface VehicleConfig {
+  enabled?: boolean;
+  startSoc?: number;
+  efficiency?: number;
+  batteryKWh?: number;
+  range?: number;
+}
+
+/**
+ * Auto-lock, `afterUnplug` in minutes, `away` locks when nobody is home (presence from HomeKit or the local API)
+ */
+export interface AutoLockConfig {
+  afterUnplug?: number;
+  away?: boolean;
+  homekit?: boolean;
+  unlockedWindows?: ScheduleWindow[];
+}
+
+/**
+ * Cloud outage mode, entered after `threshold` consecutive failed polls, polls back off up to `maxInterval`
+ * seconds, queued commands expire after `commandExpiry` minutes
+ */
+export interface OutageConfig {
+  threshold?: number;
+  maxInterval?: number;
+  queueCommands?: boolean;
+  commandExpiry?: number;
+}
+
+export type NotificationEvent = 'charging_started' | 'charging_stopped' | 'charging_complete' | 'idle_plugged';
+
+/**
+ * HTTP notifier, `json` posts the notification, `ntfy` posts the message as plain text
+ */
+export interface HttpNotifierConfig {
+  url: string;
+  format?: 'json' | 'ntfy';
+  token?: string;
+  events?: NotificationEvent[];
+}
+
+/**
+ * Charging milestones notifications, `completeAfter` and `idleAfter` in minutes
+ */
+export interface NotificationsConfig {
+  events?: NotificationEvent[];
+  homekit?: boolean;
+  completeAfter?: number;
+  idleAfter?: number;
+  http?: HttpNotifierConfig[];
+}
+
+export type ControlServiceType = 'outlet' | 'switch' | 'none';
+
+export type SensorServiceType = 'contact' | 'occupancy' | 'none';
+
+/**
+ * HomeKit services of a charger: lock (enable/disable), control (pause/unpause), plugged and charging sensors
+ */
+export interface ServiceLayout {
+  lock?: boolean;
+  lockName?: string;
+  control?: ControlServiceType;
+  controlName?: string;
+  plugged?: SensorServiceType;
+  pluggedName?: string;
+  charging?: SensorServiceType;
+  chargingName?: string;
+}
+
+/**
+ * Per charger settings, `layout` and `schedule` override the platform ones
+ */
+export interface DeviceConfig {
+  address: string;
+  name?: string;
+  layout?: ServiceLayout;
+  schedule?: ScheduleConfig;
+}
+
+export interface AccountConfig {
+  name?: string;
   username: string;
   password: string;
-  refreshRate: number;
+}
+
+export type SeamConfig = PlatformConfig & {
+  name: string;
+  username?: string;
+  password?: string;
+  accounts?: AccountConfig[];
+  refreshRate?: number;
+  polling?: PollingConfig;
+  baseUrl?: string;
+  requestTimeout?: number;
+  retries?: number;
+  healthSensor?: boolean;
+  layout?: ServiceLayout;
+  devices?: DeviceConfig[];
+  schedule?: ScheduleConfig;
+  target?: TargetConfig;
+  solar?: SolarConfig;
+  tariff?: TariffConfig;
+  vehicle?: VehicleConfig;
+  autoLock?: AutoLockConfig;
+  notifications?: NotificationsConfig;
+  outage?: OutageConfig;
+  localApi?: LocalApiConfig;
+  mqtt?: MqttConfig;
 };
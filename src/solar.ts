@@ -0,0 +1,242 @@
+import type { Logging } from 'homebridge';
+import mqtt, { MqttClient } from 'mqtt';
+import fetch from 'node-fetch';
+
+import type { ResponseMini, ResponseSession } from './api.js';
+import type { SolarConfig } from './settings.js';
+
+/**
+ * MQTT/HTTP readings older than this are ignored
+ */
+const READING_MAX_AGE = 5 * 60 * 1000;
+
+const HTTP_TIMEOUT = 5 * 1000;
+
+/**
+ * Solar state persisted in `accessory.context.solar`
+ */
+export interface SolarContext {
+  enabled: boolean;
+}
+
+/**
+ * Source of the grid power, positive when exporting and negative when importing (in W)
+ */
+export interface PowerSource {
+  read(): Promise<number | undefined>;
+  close(): void;
+}
+
+/**
+ * Read a (dot separated) path of a JSON value, the value itself when there is no path
+ */
+export const pick = (value: unknown, path?: string) =>
+  (path ? path.split('.') : []).reduce<unknown>(
+    (acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined),
+    value,
+  );
+
+/**
+ * Number at a path of a JSON value
+ */
+const pickNumber = (value: unknown, path?: string) => {
+  const picked = pick(value, path);
+  const number = typeof picked === 'string' ? parseFloat(picked) : picked;
+
+  return typeof number === 'number' && !isNaN(number) ? number : undefined;
+};
+
+/**
+ * Grid power from the EO CT clamps (in A, positive when importing)
+ */
+export class CtPowerSource implements PowerSource {
+  constructor(private readonly getDevice: () => ResponseMini, private readonly invert = false) {}
+
+  async read() {
+    const { ct1, ct2, ct3, voltage } = this.getDevice();
+    const power = ((ct1 || 0) + (ct2 || 0) + (ct3 || 0)) * (voltage || 230);
+
+    return this.invert ? power : -power;
+  }
+
+  close() {}
+}
+
+/**
+ * Grid power from a local HTTP JSON endpoint (positive when exporting)
+ */
+export class HttpPowerSource implements PowerSource {
+  constructor(
+    private readonly log: Logging,
+    private readonly url: string,
+    private readonly path?: string,
+    private readonly invert = false,
+  ) {}
+
+  async read() {
+    try {
+      const resp = await fetch(this.url, { signal: AbortSignal.timeout(HTTP_TIMEOUT) });
+
+      if (!resp.ok) {
+        throw new Error(`HTTP ${resp.status}`);
+      }
+
+      const power = pickNumber(await resp.json(), this.path);
+
+      return power === undefined || !this.invert ? power : -power;
+    } catch (err) {
+      this.log.warn('Failed to read grid power from', this.url, (err as Error).message);
+
+      return undefined;
+    }
+  }
+
+  close() {}
+}
+
+/**
+ * Grid power from an MQTT topic (positive when exporting), plain number or JSON
+ */
+export class MqttPowerSource implements PowerSource {
+  private client: MqttClient;
+
+  private power: number | undefined = undefined;
+  private receivedAt = 0;
+
+  constructor(
+    private readonly log: Logging,
+    url: string,
+    topic: string,
+    private readonly path?: string,
+    private readonly invert = false,
+  ) {
+    this.client = mqtt.connect(url);
+
+    this.client.on('connect', () => {
+      this.log.debug('Solar MQTT connected', url);
+      this.client.subscribe(topic);
+    });
+
+    this.client.on('error', (err) => {
+      this.log.warn('Solar MQTT error', err.message);
+    });
+
+    this.client.on('message', (_topic, payload) => {
+      let value: unknown = payload.toString();
+
+      try {
+        value = JSON.parse(value as string);
+      } catch (err) {
+        // ? Plain value
+      }
+
+      const power = pickNumber(value, this.path);
+
+      if (power === undefined) {
+        this.log.debug('Solar MQTT ignoring payload', payload.toString());
+        return;
+      }
+
+      this.power = this.invert ? -power : power;
+      this.receivedAt = Date.now();
+    });
+  }
+
+  async read() {
+    return Date.now() - this.receivedAt > READING_MAX_AGE ? undefined : this.power;
+  }
+
+  close() {
+    this.client.end();
+  }
+}
+
+/**
+ * Create the configured local power source (CT clamps are read per charger)
+ */
+export const createPowerSource = (log: Logging, config: SolarConfig): PowerSource | undefined => {
+  switch (config.source) {
+    case 'http':
+      return config.url ? new HttpPowerSource(log, config.url, config.path, config.invert) : undefined;
+    case 'mqtt':
+      return config.url && config.topic
+        ? new MqttPowerSource(log, config.url, config.topic, config.path, config.invert)
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Solar Controller
+ * Charges only from surplus: unpause when exporting more than `startExport`, pause when importing more
+ * than `stopImport`, each state being kept for at least `minOn`/`minOff` seconds.
+ */
+export class SolarController {
+  private changedAt = 0;
+
+  private readonly startExport: number;
+  private readonly stopImport: number;
+  private readonly minOn: number;
+  private readonly minOff: number;
+
+  constructor(
+    private readonly id: string,
+    private readonly log: Logging,
+    config: SolarConfig,
+    private readonly context: SolarContext,
+  ) {
+    this.startExport = config.startExport ?? 1400;
+    this.stopImport = config.stopImport ?? 200;
+    this.minOn = (config.minOn ?? 300) * 1000;
+    this.minOff = (config.minOff ?? 300) * 1000;
+  }
+
+  get enabled() {
+    return this.context.enabled;
+  }
+
+  set enabled(value: boolean) {
+    this.log.info(this.id, 'Solar mode', value ? 'enabled' : 'disabled');
+
+    this.context.enabled = value;
+    this.changedAt = 0;
+  }
+
+  /**
+   * Evaluate the surplus against the current session
+   * @param sessionAlive Cable connected
+   * @param session Current session
+   * @param power Grid power (positive when exporting)
+   * @returns Action to perform, if any
+   */
+  evaluate(sessionAlive: boolean, session: ResponseSession | null, power: number | undefined, now = Date.now()) {
+    if (!this.context.enabled || !sessionAlive || !session) {
+      this.changedAt = 0;
+      return undefined;
+    }
+
+    if (power === undefined) {
+      this.log.debug(this.id, 'Solar: no grid power reading');
+      return undefined;
+    }
+
+    const elapsed = now - this.changedAt;
+
+    if (!session.IsPaused) {
+      if (-power > this.stopImport && elapsed >= this.minOn) {
+        this.log.info(this.id, 'Solar: importing', -power, 'W >', this.stopImport, 'W, pausing');
+        this.changedAt = now;
+        return 'Pause';
+      }
+    } else if (power >= this.startExport && elapsed >= this.minOff) {
+      this.log.info(this.id, 'Solar: exporting', power, 'W >=', this.startExport, 'W, unpausing');
+      this.changedAt = now;
+      return 'Unpause';
+    }
+
+    this.log.debug(this.id, 'Solar: grid', power, 'W, charging', !session.IsPaused);
+
+    return undefined;
+  }
+}
@@ -0,0 +1,63 @@
+import type { Logging } from 'homebridge';
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type { EOMiniPlatform } from './platform.js';
+import type { ChargerState } from './platformAccessory.js';
+import { PLUGIN_NAME } from './settings.js';
+import type { DeviceHealth } from './store.js';
+
+/**
+ * Delay batching the chargers of a polling cycle into a single write
+ */
+const SAVE_DELAY = 1000;
+
+/**
+ * Charger state as shown by the Homebridge UI dashboard
+ */
+export interface ChargerStatus extends ChargerState {
+  name: string;
+  currency: string | null;
+  health: DeviceHealth | null;
+}
+
+/**
+ * Status File
+ * Last known state of every charger, written to the Homebridge storage path after each poll so the
+ * Homebridge UI reads it without calling the EO cloud.
+ */
+export class StatusFile {
+  private log: Logging;
+
+  private file: string;
+
+  private chargers: Map<string, ChargerStatus> = new Map();
+
+  private timeout: NodeJS.Timeout | undefined = undefined;
+
+  constructor(private readonly platform: EOMiniPlatform) {
+    this.log = this.platform.log;
+
+    this.file = path.join(this.platform.api.user.storagePath(), `${PLUGIN_NAME}_status.json`);
+  }
+
+  update(status: ChargerStatus) {
+    this.chargers.set(status.address, status);
+
+    this.timeout = this.timeout || setTimeout(() => this.save(), SAVE_DELAY);
+  }
+
+  save() {
+    clearTimeout(this.timeout);
+    this.timeout = undefined;
+
+    try {
+      fs.writeFileSync(
+        this.file,
+        JSON.stringify({ updatedAt: new Date().toISOString(), chargers: [...this.chargers.values()] }),
+      );
+    } catch (err) {
+      this.log.error('Failed to save the chargers status', (err as Error).message);
+    }
+  }
+}
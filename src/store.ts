@@ -0,0 +1,263 @@
+import type { Logging } from 'homebridge';
+import { EventEmitter } from 'node:events';
+
+import { ApiError, EoMiniApi, HubOfflineError, MiniOfflineError, ResponseMini, ResponseSession } from './api.js';
+
+/**
+ * Result of the hub/mini healthcheck
+ */
+export interface DeviceHealth {
+  online: boolean;
+  reason?: string;
+  checkedAt: Date;
+}
+
+/**
+ * Events emitted by the state store, device events carry the device address
+ */
+export interface StateStoreEvents {
+  /**
+   * Device added or changed in `miniList`
+   */
+  device: [address: string, device: ResponseMini, previous: ResponseMini | undefined];
+  /**
+   * Device removed from `miniList`
+   */
+  deviceRemoved: [address: string];
+  health: [address: string, health: DeviceHealth, previous: DeviceHealth | undefined];
+  /**
+   * Session, cable state or session owner changed (the session endpoints are per account)
+   */
+  session: [session: ResponseSession | null, sessionAlive: boolean, owner: string | undefined];
+  /**
+   * Session polling failed, the last known session is kept
+   */
+  sessionError: [err: ApiError];
+  sessionRecovered: [];
+  /**
+   * EO cloud outage started or ended (consecutive failed polls)
+   */
+  outage: [active: boolean];
+  /**
+   * End of a polling cycle, after all the change events
+   */
+  cycle: [updatedAt: Date];
+}
+
+const equal = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const normalize = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim().toLowerCase());
+
+/**
+ * Find the charger of a session: `CPID`, `ULoc` or `Location` matching the mini or hub identifiers
+ * An account with a single charger always owns the session
+ * @param session Session
+ * @param devices Account chargers
+ * @returns Charger address, undefined when no or several chargers match
+ */
+export const matchSession = (session: ResponseSession | null, devices: ResponseMini[]) => {
+  if (devices.length === 1) {
+    return { address: devices[0].address, ambiguous: false };
+  }
+
+  const keys = session ? [session.CPID, session.ULoc, session.Location].map(normalize).filter(Boolean) : [];
+  const matches = devices.filter((device) =>
+    [device.address, device.chargerAddress, device.hubAddress, device.hubSerial]
+      .map(normalize)
+      .some((id) => id && keys.includes(id)),
+  );
+
+  return {
+    address: matches.length === 1 ? matches[0].address : undefined,
+    ambiguous: devices.length > 1 && matches.length !== 1,
+  };
+};
+
+/**
+ * State Store
+ * Polls `miniList`, the healthchecks, `session` and `sessionAlive` once per cycle for all the chargers,
+ * diffs the results with the previous cycle and emits the changes.
+ */
+export class StateStore extends EventEmitter<StateStoreEvents> {
+  readonly devices: Map<string, ResponseMini> = new Map();
+  readonly health: Map<string, DeviceHealth> = new Map();
+
+  session: ResponseSession | null = null;
+  sessionAlive = false;
+  sessionError: ApiError | undefined = undefined;
+
+  /**
+   * Address of the charger the session belongs to
+   */
+  sessionOwner: string | undefined = undefined;
+
+  /**
+   * EO cloud unreachable, the last known state is kept
+   */
+  outage = false;
+
+  /**
+   * Session (`USID`, 0 for a cable without session) already reported as ambiguous
+   */
+  private ambiguousSession: number | undefined = undefined;
+
+  updatedAt: Date | undefined = undefined;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly client: () => EoMiniApi,
+  ) {
+    super();
+
+    this.setMaxListeners(0);
+  }
+
+  /**
+   * Poll the EO API and emit the changes
+   * @returns Session check failure of this cycle, if any
+   */
+  async poll() {
+    this.log.debug('Polling state');
+
+    const devices = await this.client().miniList();
+
+    this.updateDevices(devices);
+
+    for (const device of devices) {
+      await this.checkHealth(device);
+    }
+
+    let sessionError: ApiError | undefined = undefined;
+
+    // ! Session data is stale while every charger is offline, keep the last known state
+    if (devices.some((device) => this.health.get(device.address)?.online ?? true)) {
+      sessionError = await this.checkSession();
+    }
+
+    this.updatedAt = new Date();
+    this.emit('cycle', this.updatedAt);
+
+    return sessionError;
+  }
+
+  /**
+   * Start or end a cloud outage
+   * @param active Outage
+   */
+  setOutage(active: boolean) {
+    if (active === this.outage) {
+      return;
+    }
+
+    this.outage = active;
+    this.emit('outage', active);
+  }
+
+  private updateDevices(devices: ResponseMini[]) {
+    for (const device of devices) {
+      const previous = this.devices.get(device.address);
+
+      this.devices.set(device.address, device);
+
+      if (!equal(previous, device)) {
+        this.emit('device', device.address, device, previous);
+      }
+    }
+
+    for (const address of [...this.devices.keys()]) {
+      if (!devices.some((device) => device.address === address)) {
+        this.devices.delete(address);
+        this.health.delete(address);
+        this.emit('deviceRemoved', address);
+      }
+    }
+  }
+
+  /**
+   * Check if the hub and the mini are connected to EO cloud, keeping the last known health when the check fails
+   * @param device EO Mini
+   */
+  private async checkHealth(device: ResponseMini) {
+    const previous = this.health.get(device.address);
+    let health: DeviceHealth;
+
+    try {
+      await this.client().miniStatus(device.address);
+
+      health = { online: true, checkedAt: new Date() };
+    } catch (err) {
+      if (!(err instanceof HubOfflineError || err instanceof MiniOfflineError)) {
+        this.log.warn(device.address, 'Healthcheck failed:', (err as Error).message);
+        return;
+      }
+
+      health = { online: false, reason: err.message, checkedAt: new Date() };
+    }
+
+    this.health.set(device.address, health);
+
+    if (health.online === previous?.online && health.reason === previous?.reason) {
+      return;
+    }
+
+    if (health.online !== (previous?.online ?? true)) {
+      if (health.online) {
+        this.log.info(device.address, 'Charger back online');
+      } else {
+        this.log.warn(device.address, 'Charger offline:', health.reason);
+      }
+    }
+
+    this.emit('health', device.address, health, previous);
+  }
+
+  private async checkSession() {
+    let session: ResponseSession | null;
+    let sessionAlive: boolean;
+
+    try {
+      session = await this.client().session();
+      sessionAlive = await this.client().sessionAlive();
+    } catch (err) {
+      // ! Keep the last known state, the cloud is unreachable rather than the session gone
+      if (!(err instanceof ApiError)) {
+        throw err;
+      }
+
+      this.log.warn('Failed to check session:', err.message);
+
+      this.sessionError = err;
+      this.emit('sessionError', err);
+      return err;
+    }
+
+    if (this.sessionError) {
+      this.sessionError = undefined;
+      this.emit('sessionRecovered');
+    }
+
+    const { address: owner, ambiguous } = matchSession(session, [...this.devices.values()]);
+
+    if (sessionAlive === this.sessionAlive && equal(session, this.session) && owner === this.sessionOwner) {
+      return;
+    }
+
+    if (ambiguous && (sessionAlive || session) && this.ambiguousSession !== (session?.USID ?? 0)) {
+      this.ambiguousSession = session?.USID ?? 0;
+      this.log.warn(
+        'Unable to match session',
+        session?.USID ?? '(cable connected)',
+        `(CPID ${session?.CPID}, ULoc ${session?.ULoc}, Location ${session?.Location})`,
+        'to one of the chargers',
+        [...this.devices.keys()].join(', '),
+        '- ignoring it',
+      );
+    }
+
+    this.session = session;
+    this.sessionAlive = sessionAlive;
+    this.sessionOwner = owner;
+
+    this.emit('session', session, sessionAlive, owner);
+  }
+}
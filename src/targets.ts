@@ -0,0 +1,113 @@
+import type { Logging } from 'homebridge';
+
+import type { ResponseSession } from './api.js';
+import type { TargetConfig } from './settings.js';
+
+/**
+ * Session targets persisted in `accessory.context.target`
+ */
+export interface TargetContext {
+  kwh?: number;
+  percent?: number;
+  cost?: number;
+  /**
+   * Session (`USID`) for which a target has been reached
+   */
+  reached?: number;
+}
+
+/**
+ * Charge Targets
+ * Stops a session once it has delivered enough energy (kWh or percent of the battery) or cost enough.
+ * Targets are reset to the configured defaults when the cable is disconnected.
+ */
+export class ChargeTargets {
+  constructor(
+    private readonly id: string,
+    private readonly log: Logging,
+    private readonly defaults: TargetConfig,
+    private readonly context: TargetContext,
+  ) {}
+
+  get kwh() {
+    return this.context.kwh;
+  }
+
+  get percent() {
+    return this.context.percent;
+  }
+
+  get cost() {
+    return this.context.cost;
+  }
+
+  /**
+   * Set a target for the current session (`undefined` or 0 clears it)
+   */
+  set(target: 'kwh' | 'percent' | 'cost', value: number | undefined) {
+    this.log.info(this.id, 'Target', target, this.context[target], '->', value || 'none');
+
+    this.context[target] = value || undefined;
+    this.context.reached = undefined;
+  }
+
+  /**
+   * Whether a target has been reached in the given session
+   */
+  isReached(session: ResponseSession | null) {
+    return !!session && this.context.reached === session.USID;
+  }
+
+  /**
+   * Record that a target has been reached in the given session, once the pause is confirmed
+   */
+  markReached(session: ResponseSession) {
+    this.context.reached = session.USID;
+  }
+
+  reset() {
+    if (
+      this.context.kwh === this.defaults.kwh &&
+      this.context.percent === this.defaults.percent &&
+      this.context.cost === this.defaults.cost &&
+      this.context.reached === undefined
+    ) {
+      return;
+    }
+
+    this.log.info(this.id, 'Reset targets to defaults');
+
+    this.context.kwh = this.defaults.kwh;
+    this.context.percent = this.defaults.percent;
+    this.context.cost = this.defaults.cost;
+    this.context.reached = undefined;
+  }
+
+  /**
+   * Evaluate the targets against the current session
+   * @param sessionAlive Cable connected
+   * @param session Current session
+   * @param batteryKWh Vehicle battery capacity (needed by the percent target)
+   * @returns Reason to stop charging, if a target has been reached (until {@link markReached})
+   */
+  evaluate(sessionAlive: boolean, session: ResponseSession | null, batteryKWh?: number) {
+    if (!sessionAlive || !session) {
+      this.reset();
+      return undefined;
+    }
+
+    if (this.isReached(session) || session.IsPaused) {
+      return undefined;
+    }
+
+    if (this.context.kwh && session.ESKWH >= this.context.kwh) {
+      return `${session.ESKWH} kWh >= ${this.context.kwh} kWh`;
+    } else if (this.context.percent && batteryKWh && session.ESKWH >= (batteryKWh * this.context.percent) / 100) {
+      return `${session.ESKWH} kWh >= ${this.context.percent}% of ${batteryKWh} kWh`;
+    } else if (this.context.cost && session.ESCost >= this.context.cost) {
+      return `${session.ESCost} >= ${this.context.cost}`;
+    }
+
+    return undefined;
+  }
+}
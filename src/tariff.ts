@@ -0,0 +1,367 @@
+import type { Logging } from 'homebridge';
+import fs from 'node:fs';
+import fetch from 'node-fetch';
+
+import type { ResponseSession } from './api.js';
+import { isInWindow, localTime, parseTime } from './scheduler.js';
+import { pick } from './solar.js';
+import type { TariffBand, TariffConfig } from './settings.js';
+
+const SLOT_DURATION = 30 * 60 * 1000;
+
+/**
+ * Interval between two downloads of the HTTP prices
+ */
+const HTTP_REFRESH = 30 * 60 * 1000;
+
+const HTTP_TIMEOUT = 10 * 1000;
+
+/**
+ * Tariff state persisted in `accessory.context.tariff`
+ */
+export interface TariffContext {
+  enabled: boolean;
+}
+
+/**
+ * Price of the energy (per kWh, in the EO account currency) between `start` and `end` (ms)
+ */
+export interface TariffSlot {
+  start: number;
+  end: number;
+  price: number;
+}
+
+/**
+ * Source of the tariff prices
+ */
+export interface TariffSource {
+  /**
+   * Refresh the prices when needed
+   */
+  load(): Promise<void>;
+  /**
+   * Price slots overlapping `from`/`to`
+   * @param timezone Charger timezone (time bands)
+   */
+  slots(from: number, to: number, timezone?: string): TariffSlot[];
+  close(): void;
+}
+
+/**
+ * Price at a given time
+ */
+export const priceAt = (source: TariffSource, date: number, timezone?: string) =>
+  source.slots(date, date + 1, timezone)[0]?.price;
+
+/**
+ * Build a slot from a price entry: `start`/`end`/`price`, or the Octopus style `valid_from`/`valid_to`/`value_inc_vat`
+ * A missing end lasts half an hour
+ */
+const toSlot = (item: Record<string, unknown>, scale: number): TariffSlot | undefined => {
+  const start = Date.parse(String(item.start ?? item.valid_from ?? item.from));
+  const end = item.end ?? item.valid_to ?? item.to;
+  const price = parseFloat(String(item.price ?? item.value_inc_vat ?? item.value));
+  const slot = { start, end: end ? Date.parse(String(end)) : start + SLOT_DURATION, price: price * scale };
+
+  return isNaN(slot.start) || isNaN(slot.end) || slot.end <= slot.start || isNaN(price) ? undefined : slot;
+};
+
+const toSlots = (items: unknown, scale: number) =>
+  (Array.isArray(items) ? items : [])
+    .map((item) => (item && typeof item === 'object' ? toSlot(item as Record<string, unknown>, scale) : undefined))
+    .filter((slot): slot is TariffSlot => !!slot)
+    .sort((a, b) => a.start - b.start);
+
+const overlapping = (slots: TariffSlot[], from: number, to: number) =>
+  slots.filter((slot) => slot.end > from && slot.start < to);
+
+/**
+ * Static time bands in the charger timezone, `price` applies outside of the bands
+ */
+export class StaticTariffSource implements TariffSource {
+  constructor(
+    private readonly bands: TariffBand[],
+    private readonly price?: number,
+  ) {}
+
+  async load() {}
+
+  slots(from: number, to: number, timezone?: string) {
+    const slots: TariffSlot[] = [];
+
+    for (let start = from - (from % SLOT_DURATION); start < to; start += SLOT_DURATION) {
+      const band = this.bands.find((band) => isInWindow([band], new Date(start), timezone));
+      const price = band ? band.price : this.price;
+
+      if (price !== undefined) {
+        slots.push({ start, end: start + SLOT_DURATION, price });
+      }
+    }
+
+    return slots;
+  }
+
+  close() {}
+}
+
+/**
+ * Prices from a local JSON (array of entries) or CSV (`start,end,price`) file, reloaded when it changes
+ */
+export class FileTariffSource implements TariffSource {
+  private prices: TariffSlot[] = [];
+  private modifiedAt = 0;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly file: string,
+    private readonly scale = 1,
+  ) {}
+
+  async load() {
+    try {
+      const { mtimeMs } = await fs.promises.stat(this.file);
+
+      if (mtimeMs === this.modifiedAt) {
+        return;
+      }
+
+      const content = await fs.promises.readFile(this.file, 'utf8');
+
+      this.prices = this.file.toLowerCase().endsWith('.csv')
+        ? this.parseCsv(content)
+        : toSlots(JSON.parse(content), this.scale);
+      this.modifiedAt = mtimeMs;
+
+      this.log.debug('Loaded', this.prices.length, 'tariff prices from', this.file);
+    } catch (err) {
+      this.log.warn('Failed to load tariff prices from', this.file, (err as Error).message);
+    }
+  }
+
+  private parseCsv(content: string) {
+    const rows = content
+      .split(/\r?\n/)
+      .map((line) => line.split(',').map((value) => value.trim().replace(/^"|"$/g, '')))
+      .filter((row) => row.length >= 2 && row[0]);
+
+    // * Without `end` column, each price lasts half an hour
+    const items = rows.map((row) =>
+      row.length >= 3 ? { start: row[0], end: row[1], price: row[2] } : { start: row[0], price: row[1] },
+    );
+
+    return toSlots(items, this.scale);
+  }
+
+  slots(from: number, to: number) {
+    return overlapping(this.prices, from, to);
+  }
+
+  close() {}
+}
+
+/**
+ * Half-hourly prices from an HTTP JSON endpoint, `path` locates the array of entries
+ */
+export class HttpTariffSource implements TariffSource {
+  private prices: TariffSlot[] = [];
+  private loadedAt = 0;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly url: string,
+    private readonly path?: string,
+    private readonly scale = 1,
+  ) {}
+
+  async load() {
+    if (Date.now() - this.loadedAt < HTTP_REFRESH) {
+      return;
+    }
+
+    try {
+      const resp = await fetch(this.url, { signal: AbortSignal.timeout(HTTP_TIMEOUT) });
+
+      if (!resp.ok) {
+        throw new Error(`HTTP ${resp.status}`);
+      }
+
+      const prices = toSlots(pick(await resp.json(), this.path), this.scale);
+
+      if (!prices.length) {
+        throw new Error('No prices found');
+      }
+
+      // ? Keep the past prices of the day, for the session costs
+      const cutoff = Date.now() - 24 * 60 * 60 * 1000;
+
+      this.prices = [...this.prices.filter((slot) => slot.end > cutoff && slot.start < prices[0].start), ...prices];
+      this.loadedAt = Date.now();
+
+      this.log.debug('Loaded', prices.length, 'tariff prices from', this.url);
+    } catch (err) {
+      this.log.warn('Failed to load tariff prices from', this.url, (err as Error).message);
+
+      // ! Keep the last known prices, retry in half the refresh interval
+      this.loadedAt = Date.now() - HTTP_REFRESH / 2;
+    }
+  }
+
+  slots(from: number, to: number) {
+    return overlapping(this.prices, from, to);
+  }
+
+  close() {}
+}
+
+/**
+ * Create the configured tariff source
+ */
+export const createTariffSource = (log: Logging, config: TariffConfig): TariffSource | undefined => {
+  const scale = config.scale ?? 1;
+
+  switch (config.source) {
+    case 'file':
+      return config.file ? new FileTariffSource(log, config.file, scale) : undefined;
+    case 'http':
+      return config.url ? new HttpTariffSource(log, config.url, config.path, scale) : undefined;
+    case 'static': {
+      const bands = (config.bands || []).map((band) => ({ ...band, price: band.price * scale }));
+      const price = config.price !== undefined ? config.price * scale : undefined;
+
+      return bands.length || price !== undefined ? new StaticTariffSource(bands, price) : undefined;
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Cheapest slots, before the deadline, delivering the energy at the given power
+ * All the slots are selected when they cannot deliver it
+ * @param slots Price slots
+ * @param now Now (ms)
+ * @param deadline Ready by (ms)
+ * @param kwh Energy to deliver
+ * @param power Charging power in kW
+ * @returns Selected slots, in chronological order
+ */
+export const planCheapest = (slots: TariffSlot[], now: number, deadline: number, kwh: number, power: number) => {
+  const candidates = overlapping(slots, now, deadline)
+    .map((slot) => ({ ...slot, hours: (Math.min(slot.end, deadline) - Math.max(slot.start, now)) / 3600000 }))
+    .sort((a, b) => a.price - b.price || a.start - b.start);
+
+  const selected: TariffSlot[] = [];
+  let energy = 0;
+
+  for (const { hours, ...slot } of candidates) {
+    if (energy >= kwh) {
+      break;
+    }
+
+    selected.push(slot);
+    energy += hours * power;
+  }
+
+  return selected.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Next occurrence of `HH:MM` in the given timezone
+ */
+export const nextTime = (time: string, timezone?: string, now = Date.now()) => {
+  const { minutes } = localTime(new Date(now), timezone);
+  const delay = (parseTime(time) - minutes + 24 * 60) % (24 * 60) || 24 * 60;
+
+  return now - (now % 60000) + delay * 60000;
+};
+
+/**
+ * Charge Planner
+ * Charges a connected car during the cheapest slots delivering the required energy before the `readyBy` time.
+ * A decision is only returned when it changes, so a manual pause/unpause holds until the next slot boundary.
+ */
+export class ChargePlanner {
+  private lastDecision: 'Pause' | 'Unpause' | undefined = undefined;
+  private lastPlan: string | undefined = undefined;
+
+  private readonly readyBy: string;
+  private readonly kwh: number;
+  private readonly power: number;
+
+  constructor(
+    private readonly id: string,
+    private readonly log: Logging,
+    config: TariffConfig,
+    private readonly context: TariffContext,
+  ) {
+    this.readyBy = config.readyBy || '07:00';
+    this.kwh = config.kwh ?? 20;
+    this.power = config.power || 7.2;
+  }
+
+  get enabled() {
+    return this.context.enabled;
+  }
+
+  set enabled(value: boolean) {
+    this.log.info(this.id, 'Cheapest hours', value ? 'enabled' : 'disabled');
+
+    this.context.enabled = value;
+    this.lastDecision = undefined;
+  }
+
+  /**
+   * Evaluate the plan against the current session
+   * @param sessionAlive Cable connected
+   * @param session Current session
+   * @param source Tariff prices
+   * @param timezone Charger timezone
+   * @returns Action to perform, if any
+   */
+  evaluate(
+    sessionAlive: boolean,
+    session: ResponseSession | null,
+    source: TariffSource,
+    timezone?: string,
+    now = Date.now(),
+  ) {
+    if (!this.context.enabled || !sessionAlive || !session) {
+      this.lastDecision = undefined;
+      this.lastPlan = undefined;
+      return undefined;
+    }
+
+    const remaining = Math.max(this.kwh - session.ESKWH, 0);
+    const deadline = nextTime(this.readyBy, timezone, now);
+    const slots = source.slots(now, deadline, timezone);
+
+    if (!slots.length) {
+      this.log.debug(this.id, 'Cheapest hours: no prices until', new Date(deadline).toISOString());
+      return undefined;
+    }
+
+    const plan = remaining > 0 ? planCheapest(slots, now, deadline, remaining, this.power) : [];
+    const summary = plan.map((slot) => `${new Date(slot.start).toISOString()} (${slot.price})`).join(', ');
+
+    if (summary !== this.lastPlan) {
+      this.lastPlan = summary;
+      this.log.info(this.id, 'Cheapest hours plan for', remaining, 'kWh:', summary || 'none');
+    }
+
+    const decision = plan.some((slot) => slot.start <= now && now < slot.end) ? 'Unpause' : 'Pause';
+
+    if (decision === this.lastDecision) {
+      return undefined;
+    }
+
+    this.lastDecision = decision;
+
+    // * Already in the expected state
+    if ((decision === 'Pause') === session.IsPaused) {
+      return undefined;
+    }
+
+    return decision;
+  }
+}
@@ -0,0 +1,181 @@
+import type { CharacteristicValue, Logging, PlatformAccessory, Service } from 'homebridge';
+
+import type { ResponseSession, ResponseVehicle } from './api.js';
+import type { EOMiniPlatform } from './platform.js';
+
+/**
+ * Starting state of charge persisted in `accessory.context.vehicle`
+ */
+interface VehicleContext {
+  startSoc: number;
+  /**
+   * Session (`USID`) the starting state of charge applies to, unset until the next session
+   */
+  session?: number;
+}
+
+/**
+ * Estimated vehicle state, shared with the integrations (local API, MQTT, ...)
+ */
+export interface VehicleState {
+  name: string | null;
+  startSoc: number;
+  soc: number | null;
+  addedKWh: number;
+  addedRange: number | null;
+  charging: boolean;
+}
+
+/**
+ * Vehicle Accessory
+ * Battery level estimated from a starting state of charge (set from HomeKit or the local API)
+ * plus the energy delivered by the charger in the current session.
+ */
+export class VehicleAccessory {
+  private batteryService: Service;
+  private startSocService: Service;
+
+  private log: Logging;
+
+  private session: ResponseSession | null = null;
+  private vehicle: ResponseVehicle | null = null;
+
+  private readonly efficiency: number;
+  private readonly defaultStartSoc: number;
+
+  constructor(
+    private readonly platform: EOMiniPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly id: string,
+  ) {
+    this.log = this.platform.log;
+
+    const config = this.platform.config.vehicle || {};
+
+    this.efficiency = Math.min(Math.max(config.efficiency ?? 0.9, 0.1), 1);
+    this.defaultStartSoc = config.startSoc ?? 20;
+
+    this.accessory.context.vehicle = this.accessory.context.vehicle || { startSoc: this.defaultStartSoc };
+
+    this.accessory
+      .getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'EO')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Vehicle')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, `${this.id}-vehicle`);
+
+    this.batteryService =
+      this.accessory.getService(this.platform.Service.Battery) ||
+      this.accessory.addService(this.platform.Service.Battery);
+
+    this.batteryService.getCharacteristic(this.platform.Characteristic.BatteryLevel).onGet(() => this.soc ?? 0);
+
+    // * Starting state of charge, adjustable from HomeKit as a brightness
+    this.startSocService =
+      this.accessory.getServiceById(this.platform.Service.Lightbulb, 'startSoc') ||
+      this.accessory.addService(this.platform.Service.Lightbulb, `${this.id} Starting Charge`, 'startSoc');
+
+    this.startSocService.getCharacteristic(this.platform.Characteristic.On).onGet(() => true);
+
+    this.startSocService
+      .getCharacteristic(this.platform.Characteristic.Brightness)
+      .onGet(() => this.context.startSoc)
+      .onSet((value: CharacteristicValue) => {
+        this.setStartSoc(value as number);
+      });
+
+    this.updateCharacteristics();
+  }
+
+  private get context(): VehicleContext {
+    return this.accessory.context.vehicle;
+  }
+
+  private get batteryKWh() {
+    return this.platform.config.vehicle?.batteryKWh || this.vehicle?.BatteryKWH || 0;
+  }
+
+  private get range() {
+    return this.platform.config.vehicle?.range || this.vehicle?.Range || 0;
+  }
+
+  /**
+   * Energy stored in the battery during the current session
+   */
+  private get addedKWh() {
+    return (this.session?.ESKWH || 0) * this.efficiency;
+  }
+
+  private get soc() {
+    if (!this.batteryKWh) {
+      return null;
+    }
+
+    return Math.min(100, Math.round(this.context.startSoc + (this.addedKWh / this.batteryKWh) * 100));
+  }
+
+  get state(): VehicleState {
+    return {
+      name: this.vehicle && `${this.vehicle.Manufacturer} ${this.vehicle.Model}`,
+      startSoc: this.context.startSoc,
+      soc: this.soc,
+      addedKWh: Math.round(this.addedKWh * 1000) / 1000,
+      addedRange: this.batteryKWh && this.range ? Math.round((this.range * this.addedKWh) / this.batteryKWh) : null,
+      charging: !!this.session && !this.session.IsPaused,
+    };
+  }
+
+  /**
+   * Set the state of charge at the start of the current (or next) session
+   * @param value Percent
+   */
+  setStartSoc(value: number) {
+    const startSoc = Math.min(Math.max(Math.round(value), 0), 100);
+
+    this.log.info(this.id, 'Vehicle starting charge', this.context.startSoc, '->', startSoc);
+
+    this.accessory.context.vehicle = { startSoc, session: this.session?.USID };
+
+    this.updateCharacteristics();
+  }
+
+  /**
+   * Follow the charger session
+   * @param session Current session (null when unplugged)
+   * @param vehicle Vehicle of the EO account
+   */
+  update(session: ResponseSession | null, vehicle: ResponseVehicle | null) {
+    this.session = session;
+    this.vehicle = vehicle;
+
+    if (session && this.context.session !== session.USID) {
+      // ! A starting charge set during a previous session is stale
+      if (this.context.session !== undefined) {
+        this.log.info(this.id, 'New session, vehicle starting charge reset to', this.defaultStartSoc);
+
+        this.context.startSoc = this.defaultStartSoc;
+      }
+
+      this.context.session = session.USID;
+    }
+
+    this.updateCharacteristics();
+  }
+
+  private updateCharacteristics() {
+    const { soc, charging } = this.state;
+    const { ChargingState, StatusLowBattery } = this.platform.Characteristic;
+
+    this.batteryService.updateCharacteristic(this.platform.Characteristic.BatteryLevel, soc ?? 0);
+    // ! Unplugged is not charging, `NOT_CHARGEABLE` would tell the battery cannot be charged at all
+    this.batteryService.updateCharacteristic(
+      ChargingState,
+      charging ? ChargingState.CHARGING : ChargingState.NOT_CHARGING,
+    );
+    this.batteryService.updateCharacteristic(
+      StatusLowBattery,
+      soc !== null && soc < 20 ? StatusLowBattery.BATTERY_LEVEL_LOW : StatusLowBattery.BATTERY_LEVEL_NORMAL,
+    );
+
+    this.startSocService.updateCharacteristic(this.platform.Characteristic.Brightness, this.context.startSoc);
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { AutoLock, AutoLockContext } from '../src/autoLock.js';
+import type { AutoLockConfig } from '../src/settings.js';
+import { log } from './fixtures.js';
+
+const MINUTE = 60 * 1000;
+
+// * 2024-01-01 12:00 UTC
+const NOON = Date.parse('2024-01-01T12:00:00Z');
+
+describe('AutoLock', () => {
+  const create = (config: AutoLockConfig, context: AutoLockContext = { home: true }) =>
+    new AutoLock('EO-TEST', log, config, context);
+
+  it('locks some minutes after the session ends', () => {
+    const autoLock = create({ afterUnplug: 10 });
+
+    expect(autoLock.evaluate(true, false, 'UTC', NOON)).toBeUndefined();
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + MINUTE)).toBeUndefined();
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + 10 * MINUTE)).toBeUndefined();
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + 11 * MINUTE)).toBe('unplugged for more than 10 min');
+  });
+
+  it('does not start the unplug delay for a charger that was never plugged', () => {
+    const autoLock = create({ afterUnplug: 10 });
+
+    expect(autoLock.evaluate(false, false, 'UTC', NOON)).toBeUndefined();
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + 60 * MINUTE)).toBeUndefined();
+  });
+
+  it('locks when nobody is home', () => {
+    const autoLock = create({ away: true });
+
+    expect(autoLock.evaluate(false, false, 'UTC', NOON)).toBeUndefined();
+
+    autoLock.home = false;
+
+    expect(autoLock.evaluate(false, false, 'UTC', NOON)).toBe('nobody home');
+  });
+
+  it('keeps asking until the lock is confirmed, then lets a manual unlock hold', () => {
+    const autoLock = create({ away: true }, { home: false });
+
+    expect(autoLock.evaluate(false, false, 'UTC', NOON)).toBe('nobody home');
+    // * Lock failed
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + MINUTE)).toBe('nobody home');
+
+    autoLock.markLocked();
+
+    // * Unlocked by hand
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + 2 * MINUTE)).toBeUndefined();
+
+    // * Until the next away period
+    autoLock.home = true;
+    autoLock.home = false;
+
+    expect(autoLock.evaluate(false, false, 'UTC', NOON + 3 * MINUTE)).toBe('nobody home');
+  });
+
+  it('does nothing while plugged in, already disabled or within an unlocked window', () => {
+    const context = { home: false };
+    const unlockedWindows = [{ start: '11:00', end: '13:00' }];
+
+    expect(create({ away: true }, context).evaluate(true, false, 'UTC', NOON)).toBeUndefined();
+    expect(create({ away: true }, context).evaluate(false, true, 'UTC', NOON)).toBeUndefined();
+    expect(create({ away: true, unlockedWindows }, context).evaluate(false, false, 'UTC', NOON)).toBeUndefined();
+  });
+});
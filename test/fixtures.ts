@@ -0,0 +1,53 @@
+import type { Logging } from 'homebridge';
+
+import type { ResponseMini, ResponseSession } from '../src/api.js';
+
+/**
+ * Silent logger
+ */
+export const log = Object.assign(() => {}, {
+  prefix: 'EO',
+  info: () => {},
+  success: () => {},
+  warn: () => {},
+  error: () => {},
+  debug: () => {},
+  log: () => {},
+}) as unknown as Logging;
+
+export const createSession = (session: Partial<ResponseSession> = {}): ResponseSession => ({
+  USID: 1,
+  CPID: 1,
+  PiTime: 0,
+  ESTime: 0,
+  ESCost: 0,
+  ESKWH: 0,
+  ChargingTime: 0,
+  PayR1: 0,
+  PayR2: 0,
+  PayR3: 0,
+  PayR4: 0,
+  ULoc: '',
+  Location: '',
+  Voltage: 230,
+  IsPaused: false,
+  IsOverridden: false,
+  ...session,
+});
+
+export const createMini = (mini: Partial<ResponseMini> = {}): ResponseMini => ({
+  address: 'EO-TEST',
+  isDisabled: 0,
+  ct1: 0,
+  ct2: 0,
+  ct3: 0,
+  advertisedRate: 32,
+  voltage: 230,
+  timezone: 'UTC',
+  chargerAddress: '',
+  hubAddress: '',
+  chargerModel: 0,
+  hubModel: 0,
+  hubSerial: '',
+  ...mini,
+});
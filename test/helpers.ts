@@ -0,0 +1,116 @@
+import type { API, Logging, PlatformConfig } from 'homebridge';
+import fs from 'node:fs';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type { MockServer } from '../src/mock/server.js';
+import { EOMiniPlatform } from '../src/platform.js';
+import { PLATFORM_NAME } from '../src/settings.js';
+
+/**
+ * Homebridge only exports its types, the API implementation is loaded from its `dist` folder
+ */
+const homebridgeDist = path.dirname(createRequire(import.meta.url).resolve('homebridge'));
+
+const { HomebridgeAPI } = await import(pathToFileURL(path.join(homebridgeDist, 'api.js')).href);
+const { User } = await import(pathToFileURL(path.join(homebridgeDist, 'user.js')).href);
+
+// ! Homebridge only lets the storage path be set once, it is emptied for each platform instead
+const storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'eo-mini-'));
+
+User.setStoragePath(storagePath);
+
+export interface TestPlatform {
+  platform: EOMiniPlatform;
+  api: API;
+  /**
+   * Log lines as `level message`
+   */
+  lines: string[];
+  /**
+   * Run a polling cycle of the first account
+   */
+  poll(): Promise<void>;
+  stop(): void;
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait until the condition holds
+ */
+export const waitFor = async (condition: () => boolean, timeout = 5000) => {
+  const until = Date.now() + timeout;
+
+  while (!condition()) {
+    if (Date.now() > until) {
+      throw new Error('Condition not met in time');
+    }
+
+    await sleep(50);
+  }
+};
+
+const createLog = (lines: string[]) => {
+  const line =
+    (level: string) =>
+      (...args: unknown[]) =>
+        lines.push(`${level} ${args.map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : arg)).join(' ')}`);
+
+  return Object.assign(line('log'), {
+    prefix: 'EO',
+    info: line('info'),
+    success: line('info'),
+    warn: line('warn'),
+    error: line('error'),
+    debug: line('debug'),
+    log: line('log'),
+  }) as unknown as Logging;
+};
+
+/**
+ * Start the platform against the mock EO cloud, resolves once the chargers are polled or the discovery failed
+ * @param mock Mock EO cloud
+ * @param config Platform config, merged with the mock credentials
+ */
+export const startPlatform = async (mock: MockServer, config: Partial<PlatformConfig> = {}): Promise<TestPlatform> => {
+  fs.rmSync(storagePath, { recursive: true, force: true });
+  fs.mkdirSync(storagePath);
+
+  const api = new HomebridgeAPI() as API & { signalFinished(): void; emit(event: string): boolean };
+
+  api.registerPlatformAccessories = () => {};
+  api.updatePlatformAccessories = () => {};
+  api.unregisterPlatformAccessories = () => {};
+
+  const lines: string[] = [];
+  const platform = new EOMiniPlatform(
+    createLog(lines),
+    {
+      platform: PLATFORM_NAME,
+      name: 'EO',
+      username: mock.state.username,
+      password: mock.state.password,
+      baseUrl: mock.url,
+      // ! Polls are driven by the tests
+      polling: { idle: 3600, connected: 3600, charging: 3600 },
+      ...config,
+    },
+    api,
+  );
+
+  api.signalFinished();
+
+  // * Discovered and polled, or the discovery failed
+  await waitFor(() => lines.some((line) => /Computing all|Failed to discover devices/.test(line)));
+
+  return {
+    platform,
+    api,
+    lines,
+    poll: () => platform.accounts[0].updateDevices(),
+    stop: () => api.emit('shutdown'),
+  };
+};
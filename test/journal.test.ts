@@ -0,0 +1,79 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { SessionJournal } from '../src/journal.js';
+import type { EOMiniPlatform } from '../src/platform.js';
+import { createSession, log } from './fixtures.js';
+
+describe('SessionJournal', () => {
+  let storagePath: string;
+  let journal: SessionJournal;
+
+  const create = () =>
+    new SessionJournal({ log, api: { user: { storagePath: () => storagePath } } } as unknown as EOMiniPlatform);
+
+  /**
+   * Record a session plugged in at the given ISO date
+   */
+  const record = (USID: number, start: string, vehicle: string | null, kwh: number, cost: number, name = 'EO-A') =>
+    journal.record(
+      name,
+      {
+        session: createSession({ USID, PiTime: Date.parse(start) / 1000, ESKWH: kwh, ESCost: cost, ChargingTime: 5400 }),
+        seenAt: 0,
+      },
+      vehicle,
+      'GBP',
+      'UTC',
+    );
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'eo-journal-'));
+    journal = create();
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('records a session once and persists it', () => {
+    record(1, '2024-01-10T20:00:00Z', 'Tesla Model 3', 10, 2.5);
+    record(1, '2024-01-10T20:00:00Z', 'Tesla Model 3', 10, 2.5);
+
+    expect(create().list()).toMatchObject([{ id: 1, address: 'EO-A', month: '2024-01', kwh: 10, cost: 2.5 }]);
+  });
+
+  it('exports the sessions as CSV, quoting the values when needed', () => {
+    record(1, '2024-01-10T20:00:00Z', 'Renault "Zoe", 2019', 10, 2.5);
+
+    const [header, row, ...rest] = journal.toCsv().split('\n');
+
+    expect(header).toBe('id,address,vehicle,start,end,month,kwh,cost,eoCost,currency,chargingTime');
+    expect(row).toMatch(/^1,EO-A,"Renault ""Zoe"", 2019",2024-01-10T20:00:00.000Z,[^,]+,2024-01,10,2.5,2.5,GBP,5400$/);
+    expect(rest).toEqual([]);
+  });
+
+  it('exports the header alone without sessions', () => {
+    expect(journal.toCsv()).toBe('id,address,vehicle,start,end,month,kwh,cost,eoCost,currency,chargingTime');
+  });
+
+  it('sums the sessions per month and vehicle', () => {
+    record(1, '2024-01-10T20:00:00Z', 'Zoe', 10.1, 2.5);
+    record(2, '2024-01-20T20:00:00Z', 'Zoe', 20.2, 5.05);
+    record(3, '2024-01-21T20:00:00Z', 'Leaf', 5, 1);
+    record(4, '2024-02-01T20:00:00Z', 'Zoe', 7, 1.75, 'EO-B');
+
+    expect(journal.summary()).toEqual([
+      { month: '2024-01', vehicle: 'Leaf', sessions: 1, kwh: 5, cost: 1, chargingHours: 1.5 },
+      { month: '2024-01', vehicle: 'Zoe', sessions: 2, kwh: 30.3, cost: 7.55, chargingHours: 3 },
+      { month: '2024-02', vehicle: 'Zoe', sessions: 1, kwh: 7, cost: 1.75, chargingHours: 1.5 },
+    ]);
+    expect(journal.summary({ address: 'EO-B' })).toMatchObject([{ month: '2024-02', sessions: 1 }]);
+    expect(journal.summary({ from: '2024-01-15', to: '2024-01' })).toMatchObject([
+      { vehicle: 'Leaf', sessions: 1 },
+      { vehicle: 'Zoe', sessions: 1, kwh: 20.2 },
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { createBroker } from 'aedes';
+import mqtt, { MqttClient } from 'mqtt';
+import net, { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { MockServer, startMockServer } from '../src/mock/server.js';
+import { startPlatform, TestPlatform, waitFor } from './helpers.js';
+
+const ADDRESS = 'EO-MOCK-1';
+
+/**
+ * In-process MQTT broker
+ */
+const startBroker = async (port = 0) => {
+  const broker = createBroker();
+  const server = net.createServer(broker.handle);
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: async () => {
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+};
+
+describe('MqttBridge', () => {
+  let mock: MockServer;
+  let broker: Awaited<ReturnType<typeof startBroker>>;
+  let hb: TestPlatform | undefined;
+  let client: MqttClient | undefined;
+
+  /**
+   * Last payload received per topic
+   */
+  let messages: Map<string, string>;
+
+  beforeEach(async () => {
+    mock = await startMockServer(0);
+    broker = await startBroker();
+    messages = new Map();
+  });
+
+  afterEach(async () => {
+    await client?.endAsync();
+    client = undefined;
+
+    hb?.stop();
+    hb = undefined;
+
+    await broker.close();
+    await mock.close();
+  });
+
+  const url = () => `mqtt://127.0.0.1:${broker.port}`;
+
+  const start = async (config = {}) => {
+    hb = await startPlatform(mock, { mqtt: { url: url(), ...config } });
+
+    await waitFor(() => hb!.lines.some((line) => line.includes('MQTT connected')));
+  };
+
+  /**
+   * Subscribe a test client, retained messages included
+   */
+  const subscribe = async (topic: string) => {
+    client = client || (await mqtt.connectAsync(url()));
+
+    client.on('message', (received, payload) => messages.set(received, payload.toString()));
+
+    await client.subscribeAsync(topic);
+  };
+
+  const publish = async (topic: string, payload: string) => {
+    client = client || (await mqtt.connectAsync(url()));
+
+    await client.publishAsync(topic, payload);
+  };
+
+  it('publishes the charger state to retained topics', async () => {
+    await start();
+    await subscribe('eo-mini/#');
+
+    await waitFor(() => messages.has(`eo-mini/${ADDRESS}/state`));
+
+    expect(messages.get('eo-mini/status')).toBe('online');
+    expect(JSON.parse(messages.get(`eo-mini/${ADDRESS}/state`)!)).toMatchObject({
+      address: ADDRESS,
+      pluggedIn: false,
+      fault: false,
+    });
+    expect(JSON.parse(messages.get(`eo-mini/${ADDRESS}/mini`)!)).toMatchObject({ address: ADDRESS });
+    // ! An empty retained payload clears the topic, no session while unplugged
+    expect(messages.has(`eo-mini/${ADDRESS}/session`)).toBe(false);
+
+    mock.state.plugged = true;
+    await hb!.poll();
+
+    await waitFor(() => JSON.parse(messages.get(`eo-mini/${ADDRESS}/state`)!).pluggedIn);
+
+    expect(JSON.parse(messages.get(`eo-mini/${ADDRESS}/session`)!)).toMatchObject({ USID: mock.state.session.USID });
+  });
+
+  it('publishes the Home Assistant discovery payloads', async () => {
+    await start();
+    await subscribe('homeassistant/#');
+
+    const id = 'eo_mini_EO-MOCK-1';
+    const topic = (component: string, key: string) => `homeassistant/${component}/${id}/${key}/config`;
+
+    await waitFor(() => messages.size === 6);
+
+    expect(JSON.parse(messages.get(topic('lock', 'lock'))!)).toMatchObject({
+      unique_id: `${id}_lock`,
+      state_topic: `eo-mini/${ADDRESS}/state`,
+      command_topic: `eo-mini/${ADDRESS}/set/lock`,
+      availability_topic: 'eo-mini/status',
+      device: { identifiers: [id] },
+    });
+    expect(JSON.parse(messages.get(topic('switch', 'charging'))!)).toMatchObject({
+      command_topic: `eo-mini/${ADDRESS}/set/charging`,
+    });
+    expect([...messages.keys()]).toEqual(
+      expect.arrayContaining([
+        topic('binary_sensor', 'plugged_in'),
+        topic('binary_sensor', 'fault'),
+        topic('sensor', 'session_energy'),
+        topic('sensor', 'session_cost'),
+      ]),
+    );
+  });
+
+  it('skips the discovery payloads when disabled', async () => {
+    await start({ discovery: false });
+    await subscribe('#');
+
+    await waitFor(() => messages.has(`eo-mini/${ADDRESS}/state`));
+
+    expect([...messages.keys()].filter((topic) => topic.startsWith('homeassistant/'))).toEqual([]);
+  });
+
+  it('locks and unlocks the charger from set/lock', async () => {
+    await start();
+
+    await publish(`eo-mini/${ADDRESS}/set/lock`, 'LOCK');
+    await waitFor(() => mock.state.mini.isDisabled === 1);
+
+    await publish(`eo-mini/${ADDRESS}/set/lock`, 'UNLOCK');
+    await waitFor(() => mock.state.mini.isDisabled === 0);
+
+    expect(mock.requests).toEqual(expect.arrayContaining(['POST /api/mini/disable', 'POST /api/mini/enable']));
+  }, 10000);
+
+  it('pauses and resumes the session from set/charging', async () => {
+    mock.state.plugged = true;
+    await start();
+
+    await publish(`eo-mini/${ADDRESS}/set/charging`, 'OFF');
+    await waitFor(() => mock.state.paused);
+
+    await publish(`eo-mini/${ADDRESS}/set/charging`, 'ON');
+    await waitFor(() => !mock.state.paused, 8000);
+  }, 15000);
+
+  it('ignores unknown commands and chargers', async () => {
+    await start();
+
+    await publish(`eo-mini/${ADDRESS}/set/lock`, 'OPEN');
+    await publish('eo-mini/EO-UNKNOWN/set/lock', 'LOCK');
+
+    await waitFor(() => hb!.lines.filter((line) => line.includes('MQTT ignoring')).length === 2);
+
+    expect(mock.requests).not.toContain('POST /api/mini/disable');
+  });
+
+  it('publishes everything again after reconnecting to a broker that lost its retained messages', async () => {
+    await start();
+
+    const port = broker.port;
+
+    // * Fresh broker on the same port, without the retained messages
+    await broker.close();
+    broker = await startBroker(port);
+
+    await waitFor(() => hb!.lines.filter((line) => line.includes('MQTT connected')).length === 2, 10000);
+
+    await subscribe('#');
+    await waitFor(() => messages.has('homeassistant/lock/eo_mini_EO-MOCK-1/lock/config'));
+
+    expect(messages.get('eo-mini/status')).toBe('online');
+    expect(JSON.parse(messages.get(`eo-mini/${ADDRESS}/state`)!)).toMatchObject({ address: ADDRESS });
+    expect(JSON.parse(messages.get(`eo-mini/${ADDRESS}/mini`)!)).toMatchObject({ address: ADDRESS });
+  }, 15000);
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChargeMonitor, NotificationContext } from '../src/notifier.js';
+import type { NotificationsConfig } from '../src/settings.js';
+import { createSession } from './fixtures.js';
+
+const MINUTE = 60 * 1000;
+
+describe('ChargeMonitor', () => {
+  const create = (config: NotificationsConfig = {}, context: NotificationContext = { notified: [] }) =>
+    new ChargeMonitor({ completeAfter: 10, idleAfter: 60, ...config }, context);
+
+  it('notifies each milestone once per session', () => {
+    const monitor = create();
+
+    expect(monitor.evaluate(true, createSession({ ESKWH: 0 }), 0)).toEqual([]);
+    expect(monitor.evaluate(true, createSession({ ESKWH: 1 }), MINUTE)).toEqual(['charging_started']);
+    expect(monitor.evaluate(true, createSession({ ESKWH: 2 }), 2 * MINUTE)).toEqual([]);
+
+    // * No energy for the complete delay
+    expect(monitor.evaluate(true, createSession({ ESKWH: 2 }), 13 * MINUTE)).toEqual(['charging_complete']);
+    expect(monitor.evaluate(true, createSession({ ESKWH: 2 }), 14 * MINUTE)).toEqual([]);
+  });
+
+  it('notifies again for the next session', () => {
+    const monitor = create();
+
+    expect(monitor.evaluate(true, createSession({ USID: 1, ESKWH: 1 }), 0)).toEqual(['charging_started']);
+
+    monitor.evaluate(false, null, MINUTE);
+
+    expect(monitor.evaluate(true, createSession({ USID: 2, ESKWH: 1 }), 2 * MINUTE)).toEqual(['charging_started']);
+  });
+
+  it('only reports a pause it did not request as unexpected', () => {
+    const monitor = create();
+
+    monitor.evaluate(true, createSession({ ESKWH: 1 }), 0);
+    monitor.expect(true);
+
+    expect(monitor.evaluate(true, createSession({ ESKWH: 1, IsPaused: true }), MINUTE)).toEqual([]);
+
+    monitor.expect(false);
+
+    expect(monitor.evaluate(true, createSession({ ESKWH: 1, IsPaused: true }), 2 * MINUTE)).toEqual([
+      'charging_stopped',
+    ]);
+  });
+
+  it('does not report a session starting paused as stopped', () => {
+    expect(create().evaluate(true, createSession({ ESKWH: 0, IsPaused: true }), 0)).toEqual([]);
+  });
+
+  it('notifies a cable plugged in without charging', () => {
+    const monitor = create();
+
+    monitor.evaluate(true, createSession({ ESKWH: 0, IsPaused: true }), 0);
+
+    expect(monitor.evaluate(true, createSession({ ESKWH: 0, IsPaused: true }), 59 * MINUTE)).toEqual([]);
+    expect(monitor.evaluate(true, createSession({ ESKWH: 0, IsPaused: true }), 60 * MINUTE)).toEqual([
+      'idle_plugged',
+    ]);
+  });
+
+  it('keeps the notified events across restarts and filters the disabled ones', () => {
+    const context: NotificationContext = { notified: [] };
+
+    create({ events: ['charging_complete'] }, context).evaluate(true, createSession({ ESKWH: 1 }), 0);
+
+    expect(context.notified).toEqual([]);
+
+    expect(create({}, context).evaluate(true, createSession({ ESKWH: 1 }), MINUTE)).toEqual(['charging_started']);
+
+    expect(create({}, context).evaluate(true, createSession({ ESKWH: 1 }), 2 * MINUTE)).toEqual([]);
+  });
+});
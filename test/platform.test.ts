@@ -0,0 +1,196 @@
+import type { Characteristic, Service, WithUUID } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { MockServer, startMockServer } from '../src/mock/server.js';
+import { sleep, startPlatform, TestPlatform, waitFor } from './helpers.js';
+
+const ADDRESS = 'EO-MOCK-1';
+
+describe('EOMiniPlatform', () => {
+  let mock: MockServer;
+  let hb: TestPlatform | undefined;
+
+  beforeEach(async () => {
+    mock = await startMockServer(0);
+  });
+
+  afterEach(async () => {
+    hb?.stop();
+    hb = undefined;
+
+    await mock.close();
+  });
+
+  const accessory = () => hb!.platform.accessories.get(hb!.api.hap.uuid.generate(ADDRESS))!;
+  const characteristic = (service: WithUUID<typeof Service>, type: WithUUID<new () => Characteristic>) =>
+    accessory().getService(service)!.getCharacteristic(type);
+
+  const outlet = () => characteristic(hb!.api.hap.Service.Outlet, hb!.api.hap.Characteristic.On);
+  const contact = () =>
+    characteristic(hb!.api.hap.Service.ContactSensor, hb!.api.hap.Characteristic.ContactSensorState);
+  const lock = () => characteristic(hb!.api.hap.Service.LockMechanism, hb!.api.hap.Characteristic.LockCurrentState);
+  const fault = () => characteristic(hb!.api.hap.Service.Outlet, hb!.api.hap.Characteristic.StatusFault);
+  const lockTarget = () =>
+    characteristic(hb!.api.hap.Service.LockMechanism, hb!.api.hap.Characteristic.LockTargetState);
+
+  const charger = () => hb!.platform.chargers.get(ADDRESS)!;
+  const logins = () => mock.requests.filter((request) => request === 'POST /token').length;
+
+  it('discovers the chargers of the account', async () => {
+    hb = await startPlatform(mock);
+
+    const { LockCurrentState } = hb.api.hap.Characteristic;
+
+    expect(accessory().displayName).toBe(ADDRESS);
+    expect(outlet().value).toBe(false);
+    expect(lock().value).toBe(LockCurrentState.UNSECURED);
+  });
+
+  it('follows a session from plug-in through pause and unpause to unplug', async () => {
+    hb = await startPlatform(mock);
+
+    const { ContactSensorState } = hb.api.hap.Characteristic;
+
+    mock.state.plugged = true;
+    await hb.poll();
+
+    expect(contact().value).toBe(ContactSensorState.CONTACT_DETECTED);
+    expect(outlet().value).toBe(true);
+
+    // * Confirmed by the follow-up poll
+    await charger().runCommand('pause');
+
+    expect(mock.state.paused).toBe(true);
+    expect(mock.requests).toContain('POST /api/session/Pause');
+    expect(outlet().value).toBe(false);
+
+    await charger().runCommand('unpause');
+
+    expect(mock.state.paused).toBe(false);
+    expect(mock.requests).toContain('POST /api/session/unpause');
+    expect(outlet().value).toBe(true);
+
+    mock.state.plugged = false;
+    await hb.poll();
+
+    expect(contact().value).toBe(ContactSensorState.CONTACT_NOT_DETECTED);
+    expect(outlet().value).toBe(false);
+    expect(hb.platform.journal?.list({ address: ADDRESS })).toMatchObject([
+      { id: mock.state.session.USID, kwh: mock.state.session.ESKWH },
+    ]);
+  }, 15000);
+
+  it('re-authenticates when the token is revoked', async () => {
+    hb = await startPlatform(mock);
+
+    const before = logins();
+
+    mock.expireTokens();
+    await hb.poll();
+
+    expect(logins()).toBe(before + 1);
+    expect(hb.lines.filter((line) => line.startsWith('error'))).toEqual([]);
+  });
+
+  it('refreshes a token about to expire before using it', async () => {
+    mock.state.tokenTtl = 2;
+    hb = await startPlatform(mock);
+
+    const before = logins();
+
+    // * Refreshed halfway through its lifetime
+    await sleep(1100);
+    await hb.poll();
+
+    expect(logins()).toBe(before + 1);
+    expect(mock.requests.slice(-1)).not.toContain('POST /token');
+  });
+
+  it('retries a 5xx response', async () => {
+    hb = await startPlatform(mock);
+
+    mock.state.failNext = 1;
+    mock.state.failStatus = 503;
+    await hb.poll();
+
+    expect(mock.state.failNext).toBe(0);
+    expect(hb.lines.filter((line) => line.startsWith('error'))).toEqual([]);
+  });
+
+  it('does not back off the login on a 5xx from the token endpoint', async () => {
+    mock.state.failNext = 1;
+    mock.state.failStatus = 503;
+    hb = await startPlatform(mock);
+
+    expect(hb.platform.chargers.has(ADDRESS)).toBe(true);
+    expect(hb.lines.some((line) => line.includes('Authentication failed'))).toBe(false);
+  });
+
+  it('serves the last known state as faulted during a cloud outage', async () => {
+    hb = await startPlatform(mock, { retries: 0, outage: { threshold: 2 } });
+
+    const { StatusFault } = hb.api.hap.Characteristic;
+
+    mock.state.failNext = 100;
+    await hb.poll();
+    await hb.poll();
+
+    expect(hb.platform.accounts[0].store.outage).toBe(true);
+    expect(fault().value).toBe(StatusFault.GENERAL_FAULT);
+
+    mock.state.failNext = 0;
+    await hb.poll();
+
+    expect(hb.platform.accounts[0].store.outage).toBe(false);
+    expect(fault().value).toBe(StatusFault.NO_FAULT);
+  });
+
+  it('faults the charger while its hub is offline', async () => {
+    hb = await startPlatform(mock);
+
+    const { StatusFault } = hb.api.hap.Characteristic;
+
+    mock.state.hubOnline = false;
+    await hb.poll();
+
+    expect(fault().value).toBe(StatusFault.GENERAL_FAULT);
+    await expect(charger().runCommand('disable')).rejects.toMatchObject({ reason: 'offline' });
+
+    mock.state.hubOnline = true;
+    await hb.poll();
+
+    expect(fault().value).toBe(StatusFault.NO_FAULT);
+  });
+
+  it('retries the discovery until the EO cloud answers', async () => {
+    mock.state.failNext = 100;
+    hb = await startPlatform(mock, { retries: 0, polling: { idle: 5 } });
+
+    const { StatusFault } = hb.api.hap.Characteristic;
+
+    expect(hb.platform.chargers.size).toBe(0);
+
+    mock.state.failNext = 0;
+    await waitFor(() => hb!.platform.chargers.has(ADDRESS), 10000);
+
+    expect(fault().value).toBe(StatusFault.NO_FAULT);
+  }, 15000);
+
+  it('locks and unlocks the charger', async () => {
+    hb = await startPlatform(mock);
+
+    const { LockCurrentState, LockTargetState } = hb.api.hap.Characteristic;
+
+    lockTarget().setValue(LockTargetState.SECURED);
+    await waitFor(() => mock.state.mini.isDisabled === 1);
+    await hb.poll();
+
+    expect(lock().value).toBe(LockCurrentState.SECURED);
+
+    lockTarget().setValue(LockTargetState.UNSECURED);
+    await waitFor(() => mock.state.mini.isDisabled === 0);
+    await hb.poll();
+
+    expect(lock().value).toBe(LockCurrentState.UNSECURED);
+  }, 15000);
+});
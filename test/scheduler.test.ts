@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChargeScheduler, isInWindow, ScheduleContext } from '../src/scheduler.js';
+import { createSession, log } from './fixtures.js';
+
+// * 2024-01-01 is a Monday
+const at = (time: string, day = '01') => new Date(`2024-01-${day}T${time}:00Z`);
+
+describe('isInWindow', () => {
+  it('matches a window within the day, end excluded', () => {
+    const windows = [{ start: '09:00', end: '17:00' }];
+
+    expect(isInWindow(windows, at('08:59'), 'UTC')).toBe(false);
+    expect(isInWindow(windows, at('09:00'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('16:59'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('17:00'), 'UTC')).toBe(false);
+  });
+
+  it('matches a window spanning midnight on both sides', () => {
+    const windows = [{ start: '23:30', end: '05:30' }];
+
+    expect(isInWindow(windows, at('23:29'), 'UTC')).toBe(false);
+    expect(isInWindow(windows, at('23:30'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('00:00'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('05:29'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('05:30'), 'UTC')).toBe(false);
+  });
+
+  it('attributes the morning of a window spanning midnight to the day it starts on', () => {
+    const windows = [{ days: ['mon' as const], start: '22:00', end: '06:00' }];
+
+    // * Monday night, Tuesday morning
+    expect(isInWindow(windows, at('23:00', '01'), 'UTC')).toBe(true);
+    expect(isInWindow(windows, at('03:00', '02'), 'UTC')).toBe(true);
+    // * Monday morning belongs to the Sunday window
+    expect(isInWindow(windows, at('03:00', '01'), 'UTC')).toBe(false);
+    expect(isInWindow(windows, at('23:00', '02'), 'UTC')).toBe(false);
+  });
+
+  it('uses the charger timezone', () => {
+    const windows = [{ start: '00:00', end: '01:00' }];
+
+    // * 23:30 UTC is 00:30 in London summer time
+    expect(isInWindow(windows, new Date('2024-07-01T23:30:00Z'), 'Europe/London')).toBe(true);
+    expect(isInWindow(windows, new Date('2024-07-01T23:30:00Z'), 'UTC')).toBe(false);
+  });
+});
+
+describe('ChargeScheduler', () => {
+  const windows = [{ start: '00:00', end: '05:00' }];
+
+  const create = (context: Partial<ScheduleContext> = {}) =>
+    new ChargeScheduler('EO-TEST', log, windows, { enabled: true, boost: false, ...context });
+
+  it('pauses outside the windows and resumes within', () => {
+    const scheduler = create();
+
+    expect(scheduler.evaluate(true, createSession(), 'UTC', at('12:00'))).toBe('Pause');
+    expect(scheduler.evaluate(true, createSession({ IsPaused: true }), 'UTC', at('01:00'))).toBe('Unpause');
+  });
+
+  it('only decides when the decision changes, a manual override holds', () => {
+    const scheduler = create();
+
+    expect(scheduler.evaluate(true, createSession(), 'UTC', at('12:00'))).toBe('Pause');
+    // * Resumed by hand
+    expect(scheduler.evaluate(true, createSession(), 'UTC', at('12:05'))).toBeUndefined();
+  });
+
+  it('does nothing when already in the expected state', () => {
+    const scheduler = create();
+
+    expect(scheduler.evaluate(true, createSession({ IsPaused: true }), 'UTC', at('12:00'))).toBeUndefined();
+  });
+
+  it('does nothing while disabled or without a session', () => {
+    expect(create({ enabled: false }).evaluate(true, createSession(), 'UTC', at('12:00'))).toBeUndefined();
+    expect(create().evaluate(false, null, 'UTC', at('12:00'))).toBeUndefined();
+  });
+
+  it('charges while boosting, until the cable is unplugged', () => {
+    const context = { enabled: true, boost: true };
+    const scheduler = new ChargeScheduler('EO-TEST', log, windows, context);
+
+    expect(scheduler.evaluate(true, createSession({ IsPaused: true }), 'UTC', at('12:00'))).toBe('Unpause');
+
+    scheduler.evaluate(false, null, 'UTC', at('12:05'));
+
+    expect(context.boost).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { pick, SolarController } from '../src/solar.js';
+import { createSession, log } from './fixtures.js';
+
+const MINUTE = 60 * 1000;
+
+describe('SolarController', () => {
+  const create = (enabled = true) =>
+    new SolarController('EO-TEST', log, { startExport: 1400, stopImport: 200, minOn: 300, minOff: 300 }, { enabled });
+
+  const charging = createSession();
+  const paused = createSession({ IsPaused: true });
+
+  it('resumes on enough export and pauses on import', () => {
+    const solar = create();
+
+    expect(solar.evaluate(true, paused, 1500, 10 * MINUTE)).toBe('Unpause');
+    expect(solar.evaluate(true, charging, -300, 20 * MINUTE)).toBe('Pause');
+  });
+
+  it('holds within the hysteresis band', () => {
+    const solar = create();
+
+    // * Exporting, but not enough to start
+    expect(solar.evaluate(true, paused, 1399, 10 * MINUTE)).toBeUndefined();
+    // * Importing, but not enough to stop
+    expect(solar.evaluate(true, charging, -200, 10 * MINUTE)).toBeUndefined();
+  });
+
+  it('keeps charging for the minimum on time', () => {
+    const solar = create();
+
+    expect(solar.evaluate(true, paused, 1500, 10 * MINUTE)).toBe('Unpause');
+    expect(solar.evaluate(true, charging, -1000, 14 * MINUTE)).toBeUndefined();
+    expect(solar.evaluate(true, charging, -1000, 15 * MINUTE)).toBe('Pause');
+  });
+
+  it('stays paused for the minimum off time', () => {
+    const solar = create();
+
+    expect(solar.evaluate(true, charging, -1000, 10 * MINUTE)).toBe('Pause');
+    expect(solar.evaluate(true, paused, 3000, 14 * MINUTE)).toBeUndefined();
+    expect(solar.evaluate(true, paused, 3000, 15 * MINUTE)).toBe('Unpause');
+  });
+
+  it('does nothing while disabled, unplugged or without a reading', () => {
+    expect(create(false).evaluate(true, paused, 3000, 10 * MINUTE)).toBeUndefined();
+    expect(create().evaluate(false, null, 3000, 10 * MINUTE)).toBeUndefined();
+    expect(create().evaluate(true, paused, undefined, 10 * MINUTE)).toBeUndefined();
+  });
+});
+
+describe('pick', () => {
+  it('reads a dotted path, array indexes included', () => {
+    expect(pick({ grid: { power: [{ value: 42 }] } }, 'grid.power.0.value')).toBe(42);
+    expect(pick({ grid: {} }, 'grid.power.value')).toBeUndefined();
+  });
+});
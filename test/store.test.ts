@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { matchSession } from '../src/store.js';
+import { createMini, createSession } from './fixtures.js';
+
+describe('matchSession', () => {
+  const first = createMini({ address: 'EO-A', chargerAddress: '101', hubAddress: 'HUB-A', hubSerial: 'SN-A' });
+  const second = createMini({ address: 'EO-B', chargerAddress: '102', hubAddress: 'HUB-B', hubSerial: 'SN-B' });
+
+  it('gives the session to the only charger of the account', () => {
+    expect(matchSession(createSession({ CPID: 999 }), [first])).toEqual({ address: 'EO-A', ambiguous: false });
+    expect(matchSession(null, [first])).toEqual({ address: 'EO-A', ambiguous: false });
+  });
+
+  it('matches the charger point id with the charger address', () => {
+    expect(matchSession(createSession({ CPID: 102 }), [first, second])).toEqual({ address: 'EO-B', ambiguous: false });
+  });
+
+  it('matches the location with the hub identifiers, ignoring the case and spaces', () => {
+    expect(matchSession(createSession({ CPID: 0, ULoc: ' hub-a ' }), [first, second])).toEqual({
+      address: 'EO-A',
+      ambiguous: false,
+    });
+    expect(matchSession(createSession({ CPID: 0, Location: 'SN-B' }), [first, second])).toEqual({
+      address: 'EO-B',
+      ambiguous: false,
+    });
+  });
+
+  it('reports a session matching none or several chargers as ambiguous', () => {
+    expect(matchSession(createSession({ CPID: 999 }), [first, second])).toEqual({ address: undefined, ambiguous: true });
+    expect(matchSession(createSession({ CPID: 101, ULoc: 'HUB-B' }), [first, second])).toEqual({
+      address: undefined,
+      ambiguous: true,
+    });
+    expect(matchSession(null, [first, second])).toEqual({ address: undefined, ambiguous: true });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { nextTime, planCheapest, priceAt, StaticTariffSource, TariffSlot } from '../src/tariff.js';
+
+const HOUR = 3600 * 1000;
+
+// * 2024-01-01 00:00 UTC
+const MIDNIGHT = Date.parse('2024-01-01T00:00:00Z');
+
+/**
+ * Hourly slots from midnight with the given prices
+ */
+const hourly = (...prices: number[]): TariffSlot[] =>
+  prices.map((price, hour) => ({ start: MIDNIGHT + hour * HOUR, end: MIDNIGHT + (hour + 1) * HOUR, price }));
+
+describe('planCheapest', () => {
+  it('selects the cheapest slots delivering the energy, in chronological order', () => {
+    const slots = hourly(30, 10, 20, 5, 40);
+
+    // * 7 kW, 3 hours for 20 kWh
+    expect(planCheapest(slots, MIDNIGHT, MIDNIGHT + 5 * HOUR, 20, 7).map((slot) => slot.price)).toEqual([10, 20, 5]);
+    expect(planCheapest(slots, MIDNIGHT, MIDNIGHT + 5 * HOUR, 7, 7).map((slot) => slot.price)).toEqual([5]);
+  });
+
+  it('only counts the part of the slots between now and the deadline', () => {
+    const slots = hourly(5, 10, 20);
+
+    // * Half of the cheapest slot is left, the next one completes the energy
+    expect(planCheapest(slots, MIDNIGHT + HOUR / 2, MIDNIGHT + 3 * HOUR, 7, 7).map((slot) => slot.price)).toEqual([
+      5, 10,
+    ]);
+    // * Slots after the deadline are ignored
+    expect(planCheapest(slots, MIDNIGHT, MIDNIGHT + 2 * HOUR, 100, 7).map((slot) => slot.price)).toEqual([5, 10]);
+  });
+
+  it('prefers the earliest slot at the same price', () => {
+    expect(planCheapest(hourly(10, 10, 10), MIDNIGHT, MIDNIGHT + 3 * HOUR, 7, 7)).toEqual([hourly(10)[0]]);
+  });
+});
+
+describe('nextTime', () => {
+  it('returns the next occurrence of the time, tomorrow once passed', () => {
+    expect(nextTime('07:00', 'UTC', MIDNIGHT + 30 * 1000)).toBe(MIDNIGHT + 7 * HOUR);
+    expect(nextTime('07:00', 'UTC', MIDNIGHT + 8 * HOUR)).toBe(MIDNIGHT + 31 * HOUR);
+    expect(nextTime('07:00', 'UTC', MIDNIGHT + 7 * HOUR)).toBe(MIDNIGHT + 31 * HOUR);
+  });
+
+  it('uses the charger timezone', () => {
+    // * 07:00 in Paris is 06:00 UTC in winter
+    expect(nextTime('07:00', 'Europe/Paris', MIDNIGHT)).toBe(MIDNIGHT + 6 * HOUR);
+  });
+});
+
+describe('StaticTariffSource', () => {
+  const source = new StaticTariffSource([{ start: '23:30', end: '05:30', price: 0.07 }], 0.3);
+
+  it('splits the day in half-hour slots priced by the bands', () => {
+    const slots = source.slots(MIDNIGHT + 5 * HOUR, MIDNIGHT + 6 * HOUR + 1, 'UTC');
+
+    expect(slots).toEqual([
+      { start: MIDNIGHT + 5 * HOUR, end: MIDNIGHT + 5.5 * HOUR, price: 0.07 },
+      { start: MIDNIGHT + 5.5 * HOUR, end: MIDNIGHT + 6 * HOUR, price: 0.3 },
+      { start: MIDNIGHT + 6 * HOUR, end: MIDNIGHT + 6.5 * HOUR, price: 0.3 },
+    ]);
+  });
+
+  it('prices a band spanning midnight', () => {
+    expect(priceAt(source, MIDNIGHT - HOUR / 4, 'UTC')).toBe(0.07);
+    expect(priceAt(source, MIDNIGHT + 2 * HOUR, 'UTC')).toBe(0.07);
+    expect(priceAt(source, MIDNIGHT + 12 * HOUR, 'UTC')).toBe(0.3);
+  });
+
+  it('has no price outside of the bands without a default price', () => {
+    const bands = new StaticTariffSource([{ start: '00:00', end: '01:00', price: 0.1 }]);
+
+    expect(bands.slots(MIDNIGHT, MIDNIGHT + 2 * HOUR, 'UTC').map((slot) => slot.start)).toEqual([
+      MIDNIGHT,
+      MIDNIGHT + HOUR / 2,
+    ]);
+  });
+});